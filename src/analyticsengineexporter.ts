@@ -0,0 +1,160 @@
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api'
+import { ExportResult, ExportResultCode, hrTimeToMilliseconds } from '@opentelemetry/core'
+import { ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-base'
+import { unwrap } from './wrap'
+
+type FieldValue = string | number | boolean | null | undefined
+
+/**
+ * A column of the data point. Either a function of the span, one of the built-in span fields
+ * (`span.name`, `span.kind`, `span.status_code`, `span.duration_ms`, `span.start_time_ms`,
+ * `trace.id`, `span.id`, `parent.id`), or the key of a span or resource attribute.
+ */
+export type AnalyticsEngineField = string | ((span: ReadableSpan) => FieldValue)
+
+export interface AnalyticsEngineSchema {
+	/**
+	 * Field used as the data point index, which is also the sampling key of Analytics Engine.
+	 */
+	index: AnalyticsEngineField
+	/**
+	 * Fields written as blobs, in order (`blob1` to `blob20`).
+	 */
+	blobs: AnalyticsEngineField[]
+	/**
+	 * Fields written as doubles, in order (`double1` to `double20`). Missing values are written as 0.
+	 */
+	doubles: AnalyticsEngineField[]
+}
+
+export interface AnalyticsEngineExporterConfig {
+	dataset: AnalyticsEngineDataset
+	schema?: AnalyticsEngineSchema
+}
+
+export const DEFAULT_ANALYTICS_ENGINE_SCHEMA: AnalyticsEngineSchema = {
+	index: 'service.name',
+	blobs: [
+		'span.name',
+		'span.kind',
+		'span.status_code',
+		'http.route',
+		'http.request.method',
+		'faas.trigger',
+		'cloudflare.binding.type',
+		'cloudflare.binding.name',
+		'db.operation.name',
+		'trace.id',
+		'span.id',
+		'parent.id',
+		'service.name',
+	],
+	doubles: ['span.duration_ms', 'span.start_time_ms', 'http.response.status_code'],
+}
+
+// Analytics Engine limits, see https://developers.cloudflare.com/analytics/analytics-engine/limits/
+const MAX_BLOBS = 20
+const MAX_DOUBLES = 20
+const MAX_INDEX_BYTES = 96
+const MAX_DATA_POINTS = 250
+
+const SPAN_FIELDS: Record<string, (span: ReadableSpan) => FieldValue> = {
+	'span.name': (span) => span.name,
+	'span.kind': (span) => SpanKind[span.kind],
+	'span.status_code': (span) => SpanStatusCode[span.status.code],
+	'span.duration_ms': (span) => hrTimeToMilliseconds(span.duration),
+	'span.start_time_ms': (span) => hrTimeToMilliseconds(span.startTime),
+	'trace.id': (span) => span.spanContext().traceId,
+	'span.id': (span) => span.spanContext().spanId,
+	'parent.id': (span) => span.parentSpanContext?.spanId,
+}
+
+function fieldValue(span: ReadableSpan, field: AnalyticsEngineField): FieldValue {
+	if (typeof field === 'function') {
+		return field(span)
+	}
+	const spanField = SPAN_FIELDS[field]
+	if (spanField) {
+		return spanField(span)
+	}
+	const value = span.attributes[field] ?? span.resource.attributes[field]
+	if (value === undefined || value === null) {
+		return undefined
+	}
+	return typeof value === 'object' ? JSON.stringify(value) : (value as FieldValue)
+}
+
+function toBlob(value: FieldValue): string | null {
+	return value === undefined || value === null ? null : String(value)
+}
+
+function toDouble(value: FieldValue): number {
+	const number = Number(value ?? 0)
+	return Number.isFinite(number) ? number : 0
+}
+
+function toIndex(value: FieldValue): string {
+	const index = toBlob(value) ?? ''
+	const encoder = new TextEncoder()
+	if (encoder.encode(index).byteLength <= MAX_INDEX_BYTES) {
+		return index
+	}
+	// Truncate on a code point boundary, so no multi-byte character is cut in half
+	let truncated = ''
+	let bytes = 0
+	for (const char of index) {
+		bytes += encoder.encode(char).byteLength
+		if (bytes > MAX_INDEX_BYTES) {
+			break
+		}
+		truncated += char
+	}
+	return truncated
+}
+
+/**
+ * Convert a span into an Analytics Engine data point laid out according to the schema.
+ */
+export function toDataPoint(span: ReadableSpan, schema: AnalyticsEngineSchema): AnalyticsEngineDataPoint {
+	return {
+		indexes: [toIndex(fieldValue(span, schema.index))],
+		blobs: schema.blobs.slice(0, MAX_BLOBS).map((field) => toBlob(fieldValue(span, field))),
+		doubles: schema.doubles.slice(0, MAX_DOUBLES).map((field) => toDouble(fieldValue(span, field))),
+	}
+}
+
+/**
+ * Span exporter writing one data point per span into a Workers Analytics Engine dataset,
+ * so that spans can be queried with SQL without a tracing vendor.
+ *
+ * Analytics Engine accepts at most 250 data points per invocation. Spans are exported at the end of the
+ * invocation that handled them, so only the first 250 spans of an export are written and the rest are dropped.
+ */
+export class AnalyticsEngineExporter implements SpanExporter {
+	private dataset: AnalyticsEngineDataset
+	private schema: AnalyticsEngineSchema
+
+	constructor(config: AnalyticsEngineExporterConfig) {
+		// The binding is instrumented by `instrumentEnv`, writing through the proxy would create a span per data point
+		this.dataset = unwrap(config.dataset)
+		this.schema = config.schema ?? DEFAULT_ANALYTICS_ENGINE_SCHEMA
+	}
+
+	export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+		if (spans.length > MAX_DATA_POINTS) {
+			console.log(
+				`Analytics Engine accepts ${MAX_DATA_POINTS} data points per invocation, dropping ${spans.length - MAX_DATA_POINTS} spans`,
+			)
+		}
+		try {
+			for (const span of spans.slice(0, MAX_DATA_POINTS)) {
+				this.dataset.writeDataPoint(toDataPoint(span, this.schema))
+			}
+			resultCallback({ code: ExportResultCode.SUCCESS })
+		} catch (error) {
+			resultCallback({ code: ExportResultCode.FAILED, error: error as Error })
+		}
+	}
+
+	async shutdown(): Promise<void> {}
+}
@@ -0,0 +1,20 @@
+import { Attributes, Context, propagation } from '@opentelemetry/api'
+
+/**
+ * Attributes for the given keys of the baggage in the context, so that values set by an upstream service,
+ * like a tenant id, can be attached to every span and log record.
+ */
+export function getBaggageAttributes(context: Context, keys: string[]): Attributes {
+	const baggage = keys.length > 0 ? propagation.getBaggage(context) : undefined
+	const attributes: Attributes = {}
+	if (!baggage) {
+		return attributes
+	}
+	for (const key of keys) {
+		const entry = baggage.getEntry(key)
+		if (entry) {
+			attributes[key] = entry.value
+		}
+	}
+	return attributes
+}
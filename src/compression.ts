@@ -0,0 +1,30 @@
+import { OTLPCompression } from './constants'
+
+/**
+ * Compress an export payload using the runtime's `CompressionStream`.
+ * Returns the body untouched when compression is disabled.
+ */
+export async function compressBody(
+	body: string | Uint8Array,
+	compression: OTLPCompression,
+): Promise<string | Uint8Array | ArrayBuffer> {
+	if (compression === 'none') {
+		return body
+	}
+	const stream = new Blob([body]).stream().pipeThrough(new CompressionStream(compression))
+	return new Response(stream).arrayBuffer()
+}
+
+/**
+ * Decompress an export payload compressed by `compressBody`.
+ */
+export async function decompressBody(
+	body: string | Uint8Array | ArrayBuffer,
+	compression: OTLPCompression,
+): Promise<string | Uint8Array> {
+	if (compression === 'none') {
+		return body instanceof ArrayBuffer ? new Uint8Array(body) : body
+	}
+	const stream = new Blob([body]).stream().pipeThrough(new DecompressionStream(compression))
+	return new Uint8Array(await new Response(stream).arrayBuffer())
+}
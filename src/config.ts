@@ -2,27 +2,34 @@ import { context } from '@opentelemetry/api'
 import {
 	ExporterConfig,
 	isSpanProcessorConfig,
-	ParentRatioSamplingConfig,
+	HeadSamplerConf,
 	ResolvedTraceConfig,
 	TraceConfig,
 	Trigger,
 	WorkerOtelConfig,
 	ResolvedLogsConfig,
 	LogsConfig,
+	MetricExporterConfig,
+	MetricsConfig,
+	ResolvedMetricsConfig,
 } from './types'
 import { ReadableSpan, Sampler, SpanExporter } from '@opentelemetry/sdk-trace-base'
+import { PushMetricExporter } from '@opentelemetry/sdk-metrics'
 
 import { OTLPExporter } from './exporter'
 import { multiTailSampler, isHeadSampled, isRootErrorSpan, createSampler } from './sampling'
 import { BatchTraceSpanProcessor } from './spanprocessor'
 import { MultiTransportLogRecordProcessor } from './logs/logprocessor'
+import { OTLPMetricExporter } from './metrics/exporter'
 
 const traceConfigSymbol = Symbol('Otel Workers Tracing Configuration')
 const logsConfigSymbol = Symbol('Otel Workers Logs Configuration')
+const metricsConfigSymbol = Symbol('Otel Workers Metrics Configuration')
 
 export interface ResolvedConfig {
 	trace?: ResolvedTraceConfig
 	logs?: ResolvedLogsConfig
+	metrics?: ResolvedMetricsConfig
 }
 
 export type Initialiser = (env: Record<string, unknown>, trigger: Trigger) => ResolvedConfig
@@ -35,6 +42,9 @@ export function setConfig(config: ResolvedConfig, ctx = context.active()) {
 	if (config.logs) {
 		newCtx = newCtx.setValue(logsConfigSymbol, config.logs)
 	}
+	if (config.metrics) {
+		newCtx = newCtx.setValue(metricsConfigSymbol, config.metrics)
+	}
 	return newCtx
 }
 
@@ -48,11 +58,20 @@ export function getActiveLogsConfig(): ResolvedLogsConfig | undefined {
 	return config || undefined
 }
 
-function isSpanExporter(exporterConfig: ExporterConfig): exporterConfig is SpanExporter {
+export function getActiveMetricsConfig(): ResolvedMetricsConfig | undefined {
+	const config = context.active().getValue(metricsConfigSymbol) as ResolvedMetricsConfig
+	return config || undefined
+}
+
+export function isSpanExporter(exporterConfig: ExporterConfig): exporterConfig is SpanExporter {
 	return !!(exporterConfig as SpanExporter).export
 }
 
-function isSampler(sampler: Sampler | ParentRatioSamplingConfig): sampler is Sampler {
+function isMetricExporter(exporterConfig: MetricExporterConfig): exporterConfig is PushMetricExporter {
+	return !!(exporterConfig as PushMetricExporter).export
+}
+
+function isSampler(sampler: HeadSamplerConf): sampler is Sampler {
 	return !!(sampler as Sampler).shouldSample
 }
 
@@ -61,18 +80,23 @@ export function parseConfig(supplied: WorkerOtelConfig): ResolvedConfig {
 
 	// Parse trace config if provided
 	if (supplied.trace) {
-		config.trace = parseTraceConfig(supplied.trace, supplied.propagator)
+		config.trace = parseTraceConfig(supplied.trace, supplied.baggageAttributes ?? [])
 	}
 
 	// Parse logs config if provided
 	if (supplied.logs) {
-		config.logs = parseLogsConfig(supplied.logs)
+		config.logs = parseLogsConfig(supplied.logs, supplied.baggageAttributes ?? [])
+	}
+
+	// Parse metrics config if provided
+	if (supplied.metrics) {
+		config.metrics = parseMetricsConfig(supplied.metrics)
 	}
 
 	return config
 }
 
-function parseTraceConfig(supplied: TraceConfig, propagator?: any): ResolvedTraceConfig {
+function parseTraceConfig(supplied: TraceConfig, baggageAttributes: string[]): ResolvedTraceConfig {
 	if (isSpanProcessorConfig(supplied)) {
 		const headSampleConf = supplied.sampling?.headSampler || { ratio: 1 }
 		const headSampler = isSampler(headSampleConf) ? headSampleConf : createSampler(headSampleConf)
@@ -86,9 +110,21 @@ function parseTraceConfig(supplied: TraceConfig, propagator?: any): ResolvedTrac
 			fetch: {
 				includeTraceContext: supplied.fetch?.includeTraceContext ?? true,
 			},
+			queue: {
+				includeTraceContext: supplied.queue?.includeTraceContext ?? false,
+			},
+			rpc: {
+				includeTraceContext: supplied.rpc?.includeTraceContext ?? false,
+			},
 			handlers: {
 				fetch: {
 					acceptTraceContext: supplied.handlers?.fetch?.acceptTraceContext ?? true,
+					traceResponseBody: supplied.handlers?.fetch?.traceResponseBody ?? false,
+					routes: supplied.handlers?.fetch?.routes ?? [],
+				},
+				queue: {
+					acceptTraceContext: supplied.handlers?.queue?.acceptTraceContext ?? true,
+					messageSpans: supplied.handlers?.queue?.messageSpans ?? false,
 				},
 			},
 			postProcessor: supplied.postProcessor || ((spans: ReadableSpan[]) => spans),
@@ -106,16 +142,17 @@ function parseTraceConfig(supplied: TraceConfig, propagator?: any): ResolvedTrac
 				maxQueueSize: supplied.batching?.maxQueueSize,
 				maxExportBatchSize: supplied.batching?.maxExportBatchSize,
 			},
+			baggageAttributes,
 		}
 	} else {
 		const exporter = isSpanExporter(supplied.exporter) ? supplied.exporter : new OTLPExporter(supplied.exporter)
 		const spanProcessors = [new BatchTraceSpanProcessor(exporter)]
 		const newConfig = Object.assign({}, supplied, { exporter: undefined, spanProcessors }) as TraceConfig
-		return parseTraceConfig(newConfig, propagator)
+		return parseTraceConfig(newConfig, baggageAttributes)
 	}
 }
 
-function parseLogsConfig(supplied: LogsConfig): ResolvedLogsConfig {
+function parseLogsConfig(supplied: LogsConfig, baggageAttributes: string[]): ResolvedLogsConfig {
 	const processors =
 		supplied.transports && supplied.transports.length > 0
 			? [new MultiTransportLogRecordProcessor(supplied.transports, supplied.batching)]
@@ -126,5 +163,16 @@ function parseLogsConfig(supplied: LogsConfig): ResolvedLogsConfig {
 		instrumentation: {
 			instrumentConsole: supplied.instrumentation?.instrumentConsole ?? false,
 		},
+		baggageAttributes,
+	}
+}
+
+function parseMetricsConfig(supplied: MetricsConfig): ResolvedMetricsConfig {
+	const exporter = isMetricExporter(supplied.exporter) ? supplied.exporter : new OTLPMetricExporter(supplied.exporter)
+
+	return {
+		exporter,
+		temporality: supplied.temporality ?? 'delta',
+		spanMetrics: supplied.spanMetrics ?? true,
 	}
 }
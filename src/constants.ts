@@ -35,6 +35,9 @@ export const ATTR_CLOUDFLARE_OUTCOME = 'cloudflare.outcome'
 export const ATTR_CLOUDFLARE_CPU_TIME_MS = 'cloudflare.cpu_time_ms'
 export const ATTR_CLOUDFLARE_WALL_TIME_MS = 'cloudflare.wall_time_ms'
 
+// Tail Worker events
+export const ATTR_CLOUDFLARE_TAIL_TRUNCATED = 'cloudflare.tail.truncated'
+
 // ============================================================================
 // HTTP / Fetch Handler Attributes
 // ============================================================================
@@ -42,6 +45,8 @@ export const ATTR_CLOUDFLARE_WALL_TIME_MS = 'cloudflare.wall_time_ms'
 export const ATTR_CLOUDFLARE_VERIFIED_BOT_CATEGORY = 'cloudflare.verified_bot_category'
 export const ATTR_CLOUDFLARE_ASN = 'cloudflare.asn'
 export const ATTR_CLOUDFLARE_RESPONSE_TTFB_MS = 'cloudflare.response.time_to_first_byte_ms'
+export const ATTR_CLOUDFLARE_RESPONSE_STREAMED_BYTES = 'cloudflare.response.streamed_bytes'
+export const ATTR_CLOUDFLARE_RESPONSE_STREAM_OUTCOME = 'cloudflare.response.stream.outcome'
 
 // Geo attributes
 export const ATTR_GEO_TIMEZONE = 'geo.timezone'
@@ -81,6 +86,10 @@ export const ATTR_CLOUDFLARE_SCHEDULED_TIME = 'cloudflare.scheduled_time'
 
 export const ATTR_CLOUDFLARE_QUEUE_NAME = 'cloudflare.queue.name'
 export const ATTR_CLOUDFLARE_QUEUE_BATCH_SIZE = 'cloudflare.queue.batch_size'
+export const ATTR_CLOUDFLARE_QUEUE_MESSAGE_ATTEMPTS = 'cloudflare.queue.message.attempts'
+export const ATTR_CLOUDFLARE_QUEUE_MESSAGE_TIMESTAMP = 'cloudflare.queue.message.timestamp'
+export const ATTR_CLOUDFLARE_QUEUE_MESSAGE_LAG_MS = 'cloudflare.queue.message.lag_ms'
+export const ATTR_CLOUDFLARE_QUEUE_MESSAGE_OUTCOME = 'cloudflare.queue.message.outcome'
 
 // ============================================================================
 // Email Handler Attributes
@@ -90,6 +99,36 @@ export const ATTR_CLOUDFLARE_EMAIL_FROM = 'cloudflare.email.from'
 export const ATTR_CLOUDFLARE_EMAIL_TO = 'cloudflare.email.to'
 export const ATTR_CLOUDFLARE_EMAIL_SIZE = 'cloudflare.email.size'
 
+// ============================================================================
+// Durable Object WebSocket Attributes
+// ============================================================================
+
+export const ATTR_CLOUDFLARE_WEBSOCKET_MESSAGE_TYPE = 'cloudflare.websocket.message.type'
+export const ATTR_CLOUDFLARE_WEBSOCKET_MESSAGE_SIZE = 'cloudflare.websocket.message.size'
+export const ATTR_CLOUDFLARE_WEBSOCKET_CLOSE_CODE = 'cloudflare.websocket.close.code'
+export const ATTR_CLOUDFLARE_WEBSOCKET_CLOSE_REASON = 'cloudflare.websocket.close.reason'
+export const ATTR_CLOUDFLARE_WEBSOCKET_CLOSE_WAS_CLEAN = 'cloudflare.websocket.close.was_clean'
+export const ATTR_CLOUDFLARE_WEBSOCKET_TAGS = 'cloudflare.websocket.tags'
+
+// ============================================================================
+// Workflow Attributes
+// ============================================================================
+
+export const ATTR_CLOUDFLARE_WORKFLOW_NAME = 'cloudflare.workflow.name'
+export const ATTR_CLOUDFLARE_WORKFLOW_INSTANCE_ID = 'cloudflare.workflow.instance.id'
+export const ATTR_CLOUDFLARE_WORKFLOW_INSTANCE_STATUS = 'cloudflare.workflow.instance.status'
+export const ATTR_CLOUDFLARE_WORKFLOW_EVENT_TIMESTAMP = 'cloudflare.workflow.event.timestamp'
+export const ATTR_CLOUDFLARE_WORKFLOW_STEP_NAME = 'cloudflare.workflow.step.name'
+export const ATTR_CLOUDFLARE_WORKFLOW_STEP_TYPE = 'cloudflare.workflow.step.type'
+export const ATTR_CLOUDFLARE_WORKFLOW_STEP_RETRIES_LIMIT = 'cloudflare.workflow.step.retries.limit'
+export const ATTR_CLOUDFLARE_WORKFLOW_STEP_RETRIES_DELAY = 'cloudflare.workflow.step.retries.delay'
+export const ATTR_CLOUDFLARE_WORKFLOW_STEP_RETRIES_BACKOFF = 'cloudflare.workflow.step.retries.backoff'
+export const ATTR_CLOUDFLARE_WORKFLOW_STEP_TIMEOUT = 'cloudflare.workflow.step.timeout'
+export const ATTR_CLOUDFLARE_WORKFLOW_STEP_ATTEMPT = 'cloudflare.workflow.step.attempt'
+export const ATTR_CLOUDFLARE_WORKFLOW_STEP_OUTCOME = 'cloudflare.workflow.step.outcome'
+export const ATTR_CLOUDFLARE_WORKFLOW_STEP_SLEEP_DURATION = 'cloudflare.workflow.step.sleep_duration'
+export const ATTR_CLOUDFLARE_WORKFLOW_STEP_EVENT_TYPE = 'cloudflare.workflow.step.event_type'
+
 // ============================================================================
 // Binding Attributes (Common)
 // ============================================================================
@@ -289,6 +328,26 @@ export const DEFAULT_OTLP_HEADERS: Record<string, string> = {
 	'user-agent': `Cloudflare Worker ${PACKAGE_NAME} v${PACKAGE_VERSION}`,
 }
 
+export type OTLPProtocol = 'http/json' | 'http/protobuf'
+
+export const OTLP_PROTOCOL_HEADERS: Record<OTLPProtocol, Record<string, string>> = {
+	'http/json': {
+		accept: 'application/json',
+		'content-type': 'application/json',
+	},
+	'http/protobuf': {
+		accept: 'application/x-protobuf',
+		'content-type': 'application/x-protobuf',
+	},
+}
+
+export type OTLPCompression = 'gzip' | 'none'
+
+export const OTLP_COMPRESSION_HEADERS: Record<OTLPCompression, Record<string, string>> = {
+	gzip: { 'content-encoding': 'gzip' },
+	none: {},
+}
+
 export const DEFAULT_TRACE_ENDPOINT = '/v1/traces'
 export const DEFAULT_LOGS_ENDPOINT = '/v1/logs'
 
@@ -1,24 +1,72 @@
 import { ExportResult, ExportResultCode } from '@opentelemetry/core'
 import { OTLPExporterError } from '@opentelemetry/otlp-exporter-base'
-import { JsonTraceSerializer } from '@opentelemetry/otlp-transformer'
+import { JsonTraceSerializer, ProtobufTraceSerializer } from '@opentelemetry/otlp-transformer'
 import { SpanExporter } from '@opentelemetry/sdk-trace-base'
 import { unwrap } from './wrap'
-import { DEFAULT_OTLP_HEADERS } from './constants'
+import { compressBody } from './compression'
+import { fetchWithRetry, resolveRetryConfig, ResolvedRetryConfig, RetryConfig } from './retry'
+import {
+	DEFAULT_OTLP_HEADERS,
+	OTLP_COMPRESSION_HEADERS,
+	OTLP_PROTOCOL_HEADERS,
+	OTLPCompression,
+	OTLPProtocol,
+} from './constants'
 
 export interface OTLPExporterConfig {
 	url: string
 	headers?: Record<string, string>
 	fetcher?: Fetcher['fetch']
+	/**
+	 * Encoding of the export request body.
+	 * `http/protobuf` produces considerably smaller payloads than `http/json`.
+	 * @default 'http/json'
+	 */
+	protocol?: OTLPProtocol
+	/**
+	 * Compression applied to the export request body.
+	 * @default 'none'
+	 */
+	compression?: OTLPCompression
+	/**
+	 * Retry behaviour for failed exports (network errors, 429, 502, 503 and 504).
+	 * Set to `false` to disable retries.
+	 */
+	retry?: RetryConfig | false
+}
+
+/**
+ * Encode spans as an OTLP export request in the given protocol.
+ */
+export function serializeSpans(items: any[], protocol: OTLPProtocol): string | Uint8Array {
+	if (protocol === 'http/protobuf') {
+		return ProtobufTraceSerializer.serializeRequest(items) ?? new Uint8Array()
+	}
+	const decoder = new TextDecoder()
+	const exportMessage = JsonTraceSerializer.serializeRequest(items)
+	return decoder.decode(exportMessage)
 }
 
 export class OTLPExporter implements SpanExporter {
 	private headers: Record<string, string>
 	private url: string
 	private fetcher: Fetcher['fetch']
+	private protocol: OTLPProtocol
+	private compression: OTLPCompression
+	private retry: ResolvedRetryConfig
 	constructor(config: OTLPExporterConfig) {
 		this.url = config.url
-		this.headers = Object.assign({}, DEFAULT_OTLP_HEADERS, config.headers)
+		this.protocol = config.protocol ?? 'http/json'
+		this.compression = config.compression ?? 'none'
+		this.headers = Object.assign(
+			{},
+			DEFAULT_OTLP_HEADERS,
+			OTLP_PROTOCOL_HEADERS[this.protocol],
+			OTLP_COMPRESSION_HEADERS[this.compression],
+			config.headers,
+		)
 		this.fetcher = config.fetcher ?? fetch
+		this.retry = resolveRetryConfig(config.retry)
 	}
 
 	export(items: any[], resultCallback: (result: ExportResult) => void): void {
@@ -42,17 +90,15 @@ export class OTLPExporter implements SpanExporter {
 	}
 
 	send(items: any[], onSuccess: () => void, onError: (error: OTLPExporterError) => void): void {
-		const decoder = new TextDecoder()
-		const exportMessage = JsonTraceSerializer.serializeRequest(items)
-
-		const body = decoder.decode(exportMessage)
-		const params: RequestInit = {
-			method: 'POST',
-			headers: this.headers,
-			body,
-		}
-
-		unwrap(this.fetcher)(this.url, params)
+		compressBody(this.serialize(items), this.compression)
+			.then((body) => {
+				const params: RequestInit = {
+					method: 'POST',
+					headers: this.headers,
+					body,
+				}
+				return fetchWithRetry(unwrap(this.fetcher), this.url, params, this.retry)
+			})
 			.then((response) => {
 				if (response.ok) {
 					onSuccess()
@@ -65,5 +111,9 @@ export class OTLPExporter implements SpanExporter {
 			})
 	}
 
+	private serialize(items: any[]): string | Uint8Array {
+		return serializeSpans(items, this.protocol)
+	}
+
 	async shutdown(): Promise<void> {}
 }
@@ -4,16 +4,43 @@ export * from './sdk'
 export * from './span'
 export * from './exporter'
 export * from './multiexporter'
+export { ZipkinExporter } from './zipkinexporter'
+export type { ZipkinExporterConfig } from './zipkinexporter'
+export { AnalyticsEngineExporter, DEFAULT_ANALYTICS_ENGINE_SCHEMA } from './analyticsengineexporter'
+export type {
+	AnalyticsEngineExporterConfig,
+	AnalyticsEngineSchema,
+	AnalyticsEngineField,
+} from './analyticsengineexporter'
+export { QueueSpanExporter, createOTLPQueueConsumer } from './queueexporter'
+export type {
+	OTLPQueueMessage,
+	OTLPSignal,
+	QueueExporterConfig,
+	OTLPEndpointConfig,
+	OTLPQueueConsumerConfig,
+} from './queueexporter'
+export { TelemetryBuffer, createTelemetryBuffer, DurableObjectSpanExporter } from './telemetrybuffer'
+export type { TelemetryBufferConfig, DurableObjectExporterConfig } from './telemetrybuffer'
+export { createTailExporter } from './tailexporter'
+export type { TailExporterConfig } from './tailexporter'
 export * from './spanprocessor'
+export { R2ArchiveSpanProcessor } from './r2archive'
+export type { R2ArchiveConfig, ArchiveMode } from './r2archive'
 export { withNextSpan } from './tracer'
+export { B3Propagator, JaegerPropagator, AWSXRayPropagator, CompositeTracePropagator } from './propagators'
+export type { B3PropagatorConfig, B3InjectEncoding } from './propagators'
 export type * from './types'
+export type { RetryConfig } from './retry'
 export type { InstrumentOptions, InstrumentMethod } from './instrumentation/do'
 export { InstrumentedDurableObject } from './instrumentation/do'
+export { setHttpRoute, createHonoMiddleware, instrumentIttyRouter } from './instrumentation/router'
+export { withMessageSpan } from './instrumentation/queue'
 
 // Logs exports
 export { getLogger, WorkerLoggerProvider, setGlobalLoggerProvider, getGlobalLoggerProvider } from './logs/provider'
 export { WorkerLogger } from './logs/logger'
-export { OTLPTransport, ConsoleTransport } from './logs/transport'
+export { OTLPTransport, QueueTransport, ConsoleTransport } from './logs/transport'
 export {
 	createLogProcessor,
 	ImmediateLogRecordProcessor,
@@ -21,5 +48,10 @@ export {
 	MultiTransportLogRecordProcessor,
 } from './logs/logprocessor'
 export type * from './logs/types'
+
+// Metrics exports
+export { WorkerMeterProvider } from './metrics/provider'
+export { OTLPMetricExporter } from './metrics/exporter'
+export type { OTLPMetricExporterConfig } from './metrics/exporter'
 export { SEVERITY_NUMBERS } from './constants'
-export type { SeverityNumber } from './constants'
+export type { SeverityNumber, OTLPProtocol, OTLPCompression } from './constants'
@@ -1,7 +1,21 @@
-import { trace } from '@opentelemetry/api'
+import { Context, createContextKey, Span, trace } from '@opentelemetry/api'
 import { WorkerTracer } from '../tracer'
 import { passthroughGet, wrap } from '../wrap'
 
+const HANDLER_SPAN_KEY = createContextKey('handler span')
+
+/**
+ * Store the root span of the handler handling the current invocation in the context, so it can be found
+ * again from nested spans.
+ */
+export function setHandlerSpan(context: Context, span: Span): Context {
+	return context.setValue(HANDLER_SPAN_KEY, span)
+}
+
+export function getHandlerSpan(context: Context): Span | undefined {
+	return context.getValue(HANDLER_SPAN_KEY) as Span | undefined
+}
+
 type ContextAndTracker = { ctx: ExecutionContext; tracker: PromiseTracker }
 type WaitUntilFn = ExecutionContext['waitUntil']
 
@@ -3,6 +3,7 @@ import { SemanticAttributes } from '@opentelemetry/semantic-conventions'
 import { wrap } from '../wrap'
 import {
 	ATTR_CLOUDFLARE_BINDING_TYPE,
+	ATTR_CLOUDFLARE_BINDING_NAME,
 	ATTR_DB_SYSTEM_NAME,
 	ATTR_DB_OPERATION_NAME,
 	ATTR_DB_QUERY_TEXT,
@@ -39,6 +40,7 @@ function metaAttributes(meta: D1Meta): Attributes {
 function spanOptions(dbName: string, operation: string, sql?: string): SpanOptions {
 	const attributes: Attributes = {
 		[ATTR_CLOUDFLARE_BINDING_TYPE]: 'D1',
+		[ATTR_CLOUDFLARE_BINDING_NAME]: dbName,
 		[SemanticAttributes.DB_NAME]: dbName,
 		[ATTR_DB_SYSTEM_NAME]: dbSystem,
 		[ATTR_DB_OPERATION_NAME]: operation,
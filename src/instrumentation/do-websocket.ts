@@ -0,0 +1,181 @@
+import {
+	context as api_context,
+	Attributes,
+	Context,
+	Exception,
+	isSpanContextValid,
+	Link,
+	SpanContext,
+	SpanKind,
+	SpanStatusCode,
+	trace,
+} from '@opentelemetry/api'
+import { SemanticAttributes } from '@opentelemetry/semantic-conventions'
+import { flushMetrics } from '../metrics/provider'
+import { unwrap, wrap } from '../wrap'
+import { Initialiser, setConfig } from '../config'
+import {
+	ATTR_CLOUDFLARE_HANDLER_TYPE,
+	ATTR_CLOUDFLARE_WEBSOCKET_CLOSE_CODE,
+	ATTR_CLOUDFLARE_WEBSOCKET_CLOSE_REASON,
+	ATTR_CLOUDFLARE_WEBSOCKET_CLOSE_WAS_CLEAN,
+	ATTR_CLOUDFLARE_WEBSOCKET_MESSAGE_SIZE,
+	ATTR_CLOUDFLARE_WEBSOCKET_MESSAGE_TYPE,
+	ATTR_CLOUDFLARE_WEBSOCKET_TAGS,
+} from '../constants'
+
+type Env = Record<string, unknown>
+
+export type WebSocketHandlerName = 'webSocketMessage' | 'webSocketClose' | 'webSocketError'
+
+export const WEBSOCKET_HANDLERS: ReadonlySet<string> = new Set<WebSocketHandlerName>([
+	'webSocketMessage',
+	'webSocketClose',
+	'webSocketError',
+])
+
+/**
+ * Tag added to hibernatable WebSockets, holding the span context of the upgrade request.
+ * Tags survive hibernation, unlike anything kept in memory.
+ */
+const TRACE_CONTEXT_TAG_PREFIX = 'otel.traceparent:'
+const TRACE_CONTEXT_TAG_PATTERN = /^otel\.traceparent:00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/
+// The runtime allows at most 10 tags per WebSocket
+const MAX_TAGS = 10
+
+function isTraceContextTag(tag: string): boolean {
+	return tag.startsWith(TRACE_CONTEXT_TAG_PREFIX)
+}
+
+function addTraceContextTag(tags: string[] | undefined, ctx: Context = api_context.active()): string[] | undefined {
+	const spanContext = trace.getSpanContext(ctx)
+	if (!spanContext || !isSpanContextValid(spanContext) || (tags?.length ?? 0) >= MAX_TAGS) {
+		return tags
+	}
+	const flags = spanContext.traceFlags.toString(16).padStart(2, '0')
+	return [...(tags ?? []), `${TRACE_CONTEXT_TAG_PREFIX}00-${spanContext.traceId}-${spanContext.spanId}-${flags}`]
+}
+
+function parseTraceContextTag(tags: string[]): SpanContext | undefined {
+	for (const tag of tags) {
+		const match = TRACE_CONTEXT_TAG_PATTERN.exec(tag)
+		if (match) {
+			return { traceId: match[1]!, spanId: match[2]!, traceFlags: parseInt(match[3]!, 16), isRemote: true }
+		}
+	}
+	return undefined
+}
+
+/**
+ * Instrument `acceptWebSocket` to remember the upgrade request in the tags of the socket, and `getTags`
+ * to hide that tag from the Durable Object again.
+ */
+export function instrumentWebSocketState(
+	state: DurableObjectState,
+	prop: 'acceptWebSocket' | 'getTags',
+): DurableObjectState['acceptWebSocket'] | DurableObjectState['getTags'] {
+	if (prop === 'acceptWebSocket') {
+		return (ws: WebSocket, tags?: string[]) => state.acceptWebSocket(ws, addTraceContextTag(tags))
+	}
+	return (ws: WebSocket) => state.getTags(ws).filter((tag) => !isTraceContextTag(tag))
+}
+
+function getSocketTags(state: DurableObjectState, ws: WebSocket): string[] {
+	try {
+		return state.getTags(ws)
+	} catch {
+		// Only sockets accepted with `acceptWebSocket` have tags
+		return []
+	}
+}
+
+function messageSize(message: string | ArrayBuffer): number {
+	return typeof message === 'string' ? new TextEncoder().encode(message).byteLength : message.byteLength
+}
+
+function handlerAttributes(handler: WebSocketHandlerName, args: unknown[]): Attributes {
+	switch (handler) {
+		case 'webSocketMessage': {
+			const message = args[1] as string | ArrayBuffer
+			return {
+				[ATTR_CLOUDFLARE_WEBSOCKET_MESSAGE_TYPE]: typeof message === 'string' ? 'text' : 'binary',
+				[ATTR_CLOUDFLARE_WEBSOCKET_MESSAGE_SIZE]: messageSize(message),
+			}
+		}
+		case 'webSocketClose':
+			return {
+				[ATTR_CLOUDFLARE_WEBSOCKET_CLOSE_CODE]: args[1] as number,
+				[ATTR_CLOUDFLARE_WEBSOCKET_CLOSE_REASON]: args[2] as string,
+				[ATTR_CLOUDFLARE_WEBSOCKET_CLOSE_WAS_CLEAN]: args[3] as boolean,
+			}
+		case 'webSocketError':
+			return {}
+	}
+}
+
+let cold_start = true
+export function executeDOWebSocketHandler(
+	handlerFn: Function,
+	handler: WebSocketHandlerName,
+	args: unknown[],
+	state: DurableObjectState,
+): Promise<void> {
+	const tracer = trace.getTracer('DO webSocketHandler')
+	const ws = args[0] as WebSocket
+	// The instrumented state hides the trace context tag
+	const tags = getSocketTags(unwrap(state), ws)
+	const upgradeSpanContext = parseTraceContextTag(tags)
+	const links: Link[] = upgradeSpanContext ? [{ context: upgradeSpanContext }] : []
+
+	const attributes: Attributes = {
+		[SemanticAttributes.FAAS_TRIGGER]: 'other',
+		[SemanticAttributes.FAAS_COLDSTART]: cold_start,
+		[ATTR_CLOUDFLARE_HANDLER_TYPE]: 'websocket',
+		[ATTR_CLOUDFLARE_WEBSOCKET_TAGS]: tags.filter((tag) => !isTraceContextTag(tag)),
+		'do.id': state.id.toString(),
+		'do.name': state.id.name,
+		...handlerAttributes(handler, args),
+	}
+	cold_start = false
+
+	const name = state.id.name || ''
+	// Every event gets its own trace, as a connection can outlive the upgrade request by hours
+	const options = { kind: SpanKind.CONSUMER, attributes, links, root: true }
+	return tracer.startActiveSpan(`Durable Object ${handler} ${name}`.trim(), options, async (span) => {
+		if (handler === 'webSocketError') {
+			span.recordException(args[1] as Exception)
+		}
+		try {
+			await handlerFn(...args)
+			span.setStatus({ code: SpanStatusCode.OK })
+		} catch (error) {
+			span.recordException(error as Exception)
+			span.setStatus({ code: SpanStatusCode.ERROR })
+			throw error
+		} finally {
+			span.end()
+		}
+	})
+}
+
+export function instrumentWebSocketHandlerFn(
+	fn: Function,
+	handler: WebSocketHandlerName,
+	initialiser: Initialiser,
+	env: Env,
+	state: DurableObjectState,
+): Function {
+	const handlerProxy: ProxyHandler<Function> = {
+		async apply(target, thisArg, argArray) {
+			const config = initialiser(env, 'do-websocket')
+			const context = setConfig(config)
+			const bound = target.bind(unwrap(thisArg))
+			try {
+				return await api_context.with(context, executeDOWebSocketHandler, undefined, bound, handler, argArray, state)
+			} finally {
+				state.waitUntil(flushMetrics())
+			}
+		},
+	}
+	return wrap(fn, handlerProxy)
+}
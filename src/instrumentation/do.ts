@@ -11,9 +11,16 @@ import {
 import { instrumentEnv } from './env'
 import { getActiveConfig, Initialiser, setConfig } from '../config'
 import { instrumentStorage } from './do-storage'
+import { flushMetrics } from '../metrics/provider'
 import { DOConstructorTrigger } from '../types'
 import { ATTR_CLOUDFLARE_JSRPC_METHOD, ATTR_RPC_SYSTEM, ATTR_RPC_SERVICE, ATTR_RPC_METHOD } from '../constants'
 import { injectRpcContext, extractAndRemoveRpcContext } from './rpc-context'
+import {
+	instrumentWebSocketHandlerFn,
+	instrumentWebSocketState,
+	WEBSOCKET_HANDLERS,
+	WebSocketHandlerName,
+} from './do-websocket'
 
 import { DurableObject as DurableObjectClass } from 'cloudflare:workers'
 
@@ -238,6 +245,8 @@ export function instrumentState(state: DurableObjectState) {
 			const result = Reflect.get(target, prop, unwrap(receiver))
 			if (prop === 'storage') {
 				return instrumentStorage(result)
+			} else if (prop === 'acceptWebSocket' || prop === 'getTags') {
+				return instrumentWebSocketState(target, prop)
 			} else if (typeof result === 'function') {
 				return result.bind(target)
 			} else {
@@ -309,7 +318,7 @@ export function executeDOAlarm(alarmFn: NonNullable<AlarmFn>, id: DurableObjectI
 	return promise
 }
 
-function instrumentFetchFn(fetchFn: FetchFn, initialiser: Initialiser, env: Env, id: DurableObjectId): FetchFn {
+function instrumentFetchFn(fetchFn: FetchFn, initialiser: Initialiser, env: Env, state: DurableObjectState): FetchFn {
 	const fetchHandler: ProxyHandler<FetchFn> = {
 		async apply(target, thisArg, argArray: Parameters<FetchFn>) {
 			const request = argArray[0]
@@ -317,16 +326,16 @@ function instrumentFetchFn(fetchFn: FetchFn, initialiser: Initialiser, env: Env,
 			const context = setConfig(config)
 			try {
 				const bound = target.bind(unwrap(thisArg))
-				return await api_context.with(context, executeDOFetch, undefined, bound, request, id)
-			} catch (error) {
-				throw error
+				return await api_context.with(context, executeDOFetch, undefined, bound, request, state.id)
+			} finally {
+				state.waitUntil(flushMetrics())
 			}
 		},
 	}
 	return wrap(fetchFn, fetchHandler)
 }
 
-function instrumentAlarmFn(alarmFn: AlarmFn, initialiser: Initialiser, env: Env, id: DurableObjectId) {
+function instrumentAlarmFn(alarmFn: AlarmFn, initialiser: Initialiser, env: Env, state: DurableObjectState) {
 	if (!alarmFn) return undefined
 
 	const alarmHandler: ProxyHandler<NonNullable<AlarmFn>> = {
@@ -335,9 +344,9 @@ function instrumentAlarmFn(alarmFn: AlarmFn, initialiser: Initialiser, env: Env,
 			const context = setConfig(config)
 			try {
 				const bound = target.bind(unwrap(thisArg))
-				return await api_context.with(context, executeDOAlarm, undefined, bound, id)
-			} catch (error) {
-				throw error
+				return await api_context.with(context, executeDOAlarm, undefined, bound, state.id)
+			} finally {
+				state.waitUntil(flushMetrics())
 			}
 		},
 	}
@@ -349,9 +358,10 @@ function instrumentRpcHandlerMethod(
 	methodName: string,
 	initialiser: Initialiser,
 	env: Env,
-	id: DurableObjectId,
+	state: DurableObjectState,
 ): Function {
 	if (!fn) return fn
+	const id = state.id
 
 	const fnHandler: ProxyHandler<Function> = {
 		async apply(target, thisArg, argArray) {
@@ -409,7 +419,11 @@ function instrumentRpcHandlerMethod(
 				})
 			}
 
-			return await api_context.with(context, executeRpc)
+			try {
+				return await api_context.with(context, executeRpc)
+			} finally {
+				state.waitUntil(flushMetrics())
+			}
 		},
 	}
 	return wrap(fn, fnHandler)
@@ -419,19 +433,23 @@ function instrumentDurableObject(doObj: DO, initialiser: Initialiser, env: Env,
 	const objHandler: ProxyHandler<DurableObject> = {
 		get(target, prop) {
 			// instrument, env, and ctx are now real properties, so this won't be called for them
-			// This proxy mainly handles fetch, alarm, and RPC method wrapping
+			// This proxy mainly handles fetch, alarm, WebSocket handler and RPC method wrapping
 			if (prop === 'fetch') {
 				const fetchFn = Reflect.get(target, prop)
-				return instrumentFetchFn(fetchFn, initialiser, env, state.id)
+				return instrumentFetchFn(fetchFn, initialiser, env, state)
 			} else if (prop === 'alarm') {
 				const alarmFn = Reflect.get(target, prop)
-				return instrumentAlarmFn(alarmFn, initialiser, env, state.id)
+				return instrumentAlarmFn(alarmFn, initialiser, env, state)
+			} else if (typeof prop === 'string' && WEBSOCKET_HANDLERS.has(prop)) {
+				const handlerFn = Reflect.get(target, prop)
+				if (typeof handlerFn !== 'function') return handlerFn
+				return instrumentWebSocketHandlerFn(handlerFn, prop as WebSocketHandlerName, initialiser, env, state)
 			} else {
 				const result = Reflect.get(target, prop)
 				if (typeof result === 'function' && typeof prop === 'string') {
 					result.bind(doObj)
 					// Instrument as RPC handler method (server-side)
-					return instrumentRpcHandlerMethod(result, prop, initialiser, env, state.id)
+					return instrumentRpcHandlerMethod(result, prop, initialiser, env, state)
 				}
 				return result
 			}
@@ -0,0 +1,36 @@
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api'
+import { SemanticAttributes } from '@opentelemetry/semantic-conventions'
+import { HandlerInstrumentation, InitialSpanInfo, RpcTrigger } from '../types'
+import { ATTR_CLOUDFLARE_JSRPC_METHOD, ATTR_RPC_METHOD, ATTR_RPC_SERVICE, ATTR_RPC_SYSTEM } from '../constants'
+import { extractAndRemoveRpcContext } from './rpc-context'
+
+/**
+ * Instrumentation of an RPC method of a `WorkerEntrypoint`, tracing each call as a SERVER span.
+ * The trace context injected by an instrumented service binding is removed from the arguments.
+ */
+export const rpcInstrumentation: HandlerInstrumentation<RpcTrigger, unknown> = {
+	getInitialSpanInfo: (trigger): InitialSpanInfo => {
+		const [context] = extractAndRemoveRpcContext(trigger.args)
+		return {
+			name: `${trigger.service}.${trigger.method}`,
+			options: {
+				kind: SpanKind.SERVER,
+				attributes: {
+					[SemanticAttributes.FAAS_TRIGGER]: 'rpc',
+					[ATTR_RPC_SYSTEM]: 'cloudflare_rpc',
+					[ATTR_RPC_SERVICE]: trigger.service,
+					[ATTR_RPC_METHOD]: trigger.method,
+					[ATTR_CLOUDFLARE_JSRPC_METHOD]: trigger.method,
+				},
+			},
+			context,
+		}
+	},
+	instrumentTrigger: (trigger) => {
+		const [, args] = extractAndRemoveRpcContext(trigger.args)
+		return { ...trigger, args }
+	},
+	executionSucces: (span) => {
+		span.setStatus({ code: SpanStatusCode.OK })
+	},
+}
@@ -8,6 +8,7 @@ import { instrumentAnalyticsEngineDataset } from './analytics-engine'
 import { instrumentR2Bucket } from './r2'
 import { instrumentImagesBinding } from './images'
 import { instrumentRateLimitBinding } from './rate-limit'
+import { instrumentWorkflowBinding } from './workflow'
 
 const isJSRPC = (item?: unknown): item is Service => {
 	// @ts-expect-error The point of RPC types is to block non-existent properties, but that's the goal here
@@ -61,6 +62,16 @@ const isImagesBinding = (item?: unknown): boolean => {
 	)
 }
 
+const isWorkflow = (item?: unknown): item is Workflow => {
+	const obj = item as Workflow
+	return (
+		!isJSRPC(item) &&
+		typeof obj?.create === 'function' &&
+		typeof obj?.createBatch === 'function' &&
+		typeof obj?.get === 'function'
+	)
+}
+
 const isRateLimitBinding = (item?: unknown): boolean => {
 	// Rate Limiting binding detection - has limit method
 	const obj = item as any
@@ -91,6 +102,8 @@ const instrumentEnv = <E extends Record<string, unknown>>(env: E): E => {
 				return instrumentD1(item, String(prop))
 			} else if (isR2Bucket(item)) {
 				return instrumentR2Bucket(item, String(prop))
+			} else if (isWorkflow(item)) {
+				return instrumentWorkflowBinding(item, String(prop))
 			} else if (isImagesBinding(item)) {
 				return instrumentImagesBinding(item as any, String(prop))
 			} else if (isRateLimitBinding(item)) {
@@ -14,10 +14,15 @@ import { getActiveConfig } from '../config'
 import { wrap } from '../wrap'
 import { HandlerInstrumentation, OrPromise, ResolvedTraceConfig } from '../types'
 import { ReadableSpan } from '@opentelemetry/sdk-trace-base'
+import { hrTimeToMilliseconds } from '@opentelemetry/core'
 import { gatherUserAgentAttributes } from './user-agent'
+import { matchRoute } from './router'
 import { gatherRootSpanAttributes } from './universal-attributes'
 import {
 	ATTR_CLOUDFLARE_ASN,
+	ATTR_CLOUDFLARE_RESPONSE_STREAM_OUTCOME,
+	ATTR_CLOUDFLARE_RESPONSE_STREAMED_BYTES,
+	ATTR_CLOUDFLARE_RESPONSE_TTFB_MS,
 	ATTR_CLOUDFLARE_VERIFIED_BOT_CATEGORY,
 	ATTR_GEO_TIMEZONE,
 	ATTR_GEO_CONTINENT_CODE,
@@ -46,6 +51,19 @@ export interface FetchHandlerConfig {
 	 * @default true
 	 */
 	acceptTraceContext?: boolean | AcceptTraceContextFn
+	/**
+	 * Whether to keep the span open until the response body has been streamed to the client,
+	 * recording the time to first byte, the number of bytes streamed and stream errors.
+	 * Without it, the span ends as soon as the handler returns a `Response`.
+	 * @default false
+	 */
+	traceResponseBody?: boolean
+	/**
+	 * Route table used to set `http.route` and name the span after the route instead of the raw pathname.
+	 * Routes use the `URLPattern` pathname syntax (`/users/:id`) and the first matching route wins.
+	 * @default []
+	 */
+	routes?: string[]
 }
 
 const netKeysFromCF = new Set(['colo', 'country', 'request_priority', 'tls_cipher', 'tls_version', 'asn', 'tcp_rtt'])
@@ -212,10 +230,70 @@ function updateSpanNameOnRoute(span: Span, request: IncomingRequest, result?: Re
 	}
 }
 
+type StreamOutcome = 'complete' | 'error' | 'cancelled'
+
+async function pumpBody(body: ReadableStream<Uint8Array>, writable: WritableStream<Uint8Array>, span: Span) {
+	const startTime = hrTimeToMilliseconds((span as unknown as ReadableSpan).startTime)
+	const reader = body.getReader()
+	const writer = writable.getWriter()
+	let bytes = 0
+	let outcome: StreamOutcome = 'complete'
+	for (;;) {
+		let chunk: ReadableStreamReadResult<Uint8Array>
+		try {
+			chunk = await reader.read()
+		} catch (error) {
+			outcome = 'error'
+			span.recordException(error as Exception)
+			span.setStatus({ code: SpanStatusCode.ERROR, message: 'Response stream failed' })
+			await writer.abort(error).catch(() => {})
+			break
+		}
+		if (!chunk.done && bytes === 0 && chunk.value.byteLength > 0) {
+			span.setAttribute(ATTR_CLOUDFLARE_RESPONSE_TTFB_MS, Date.now() - startTime)
+		}
+		try {
+			if (chunk.done) {
+				await writer.close()
+				break
+			}
+			await writer.write(chunk.value)
+			bytes += chunk.value.byteLength
+		} catch (reason) {
+			// The client went away before the body was fully sent
+			outcome = 'cancelled'
+			await reader.cancel(reason).catch(() => {})
+			break
+		}
+	}
+	span.setAttribute(ATTR_CLOUDFLARE_RESPONSE_STREAMED_BYTES, bytes)
+	span.setAttribute(ATTR_CLOUDFLARE_RESPONSE_STREAM_OUTCOME, outcome)
+}
+
+/**
+ * Pass the body of the response through a `TransformStream`, so the span can be ended once the
+ * body has been streamed to the client instead of when the handler returns.
+ */
+export function instrumentResponseBody(
+	span: Span,
+	response: Response,
+): { response: Response; done: Promise<void> } | undefined {
+	if (!response.body || response.webSocket) {
+		return undefined
+	}
+	// A `FixedLengthStream` keeps the `Content-Length` of the original response, which would be chunked otherwise
+	const contentLength = Number(response.headers.get('content-length') ?? NaN)
+	const { readable, writable } = Number.isSafeInteger(contentLength)
+		? new FixedLengthStream(contentLength)
+		: new TransformStream<Uint8Array, Uint8Array>()
+	const done = pumpBody(response.body, writable, span).catch(() => {})
+	return { response: new Response(readable, response), done }
+}
+
 export const fetchInstrumentation: HandlerInstrumentation<IncomingRequest, OrPromise<Response>> = {
 	getInitialSpanInfo: (request) => {
 		const spanContext = getParentContextFromRequest(request)
-		const attributes = {
+		const attributes: Attributes = {
 			['faas.trigger']: 'http',
 			['faas.invocation_id']: request.headers.get('cf-ray') ?? undefined,
 		}
@@ -225,7 +303,11 @@ export const fetchInstrumentation: HandlerInstrumentation<IncomingRequest, OrPro
 		Object.assign(attributes, gatherUserAgentAttributes(request))
 		const method = request.method.toUpperCase()
 		const url = new URL(request.url)
-		const route = url.pathname
+		const matchedRoute = matchRoute(getActiveConfig()?.handlers.fetch.routes ?? [], url)
+		if (matchedRoute) {
+			attributes['http.route'] = matchedRoute
+		}
+		const route = matchedRoute ?? url.pathname
 		return {
 			name: `${method} ${route}`,
 			options: {
@@ -1,12 +1,206 @@
-import { trace, SpanKind, Attributes, Span } from '@opentelemetry/api'
+import {
+	context as api_context,
+	trace,
+	propagation,
+	SpanKind,
+	Attributes,
+	Span,
+	Context,
+	Link,
+	SpanStatusCode,
+} from '@opentelemetry/api'
 import { unwrap, wrap } from '../wrap'
 import { HandlerInstrumentation, InitialSpanInfo, OrPromise } from '../types'
-import { ATTR_FAAS_TRIGGER, FAAS_TRIGGER_VALUE_PUBSUB } from '@opentelemetry/semantic-conventions/incubating'
-import { ATTR_CLOUDFLARE_QUEUE_NAME, ATTR_CLOUDFLARE_QUEUE_BATCH_SIZE } from '../constants'
+import { getActiveConfig } from '../config'
+import {
+	ATTR_FAAS_TRIGGER,
+	ATTR_MESSAGING_DESTINATION_NAME,
+	ATTR_MESSAGING_MESSAGE_ID,
+	ATTR_MESSAGING_OPERATION_TYPE,
+	FAAS_TRIGGER_VALUE_PUBSUB,
+	MESSAGING_OPERATION_TYPE_VALUE_PROCESS,
+} from '@opentelemetry/semantic-conventions/incubating'
+import {
+	ATTR_CLOUDFLARE_QUEUE_NAME,
+	ATTR_CLOUDFLARE_QUEUE_BATCH_SIZE,
+	ATTR_CLOUDFLARE_QUEUE_MESSAGE_ATTEMPTS,
+	ATTR_CLOUDFLARE_QUEUE_MESSAGE_LAG_MS,
+	ATTR_CLOUDFLARE_QUEUE_MESSAGE_OUTCOME,
+	ATTR_CLOUDFLARE_QUEUE_MESSAGE_TIMESTAMP,
+} from '../constants'
 
 type QueueHandler = ExportedHandlerQueueHandler<unknown, unknown>
 export type QueueHandlerArgs = Parameters<QueueHandler>
 
+export interface QueueSenderConfig {
+	/**
+	 * Whether to wrap the body of sent messages in a carrier holding the trace context.
+	 * Only enable this when the consumers are instrumented too, as they unwrap the body again.
+	 * Messages sent with the `text` or `bytes` content type are never wrapped.
+	 * @default false
+	 */
+	includeTraceContext?: boolean
+}
+
+export interface QueueHandlerConfig {
+	/**
+	 * Whether to link the consumer span to the spans that sent the messages of the batch.
+	 * @default true
+	 */
+	acceptTraceContext?: boolean
+	/**
+	 * Whether to create a span per message, from the first time the handler reads the message
+	 * until it is acked or retried. Messages that are never acked or retried explicitly end
+	 * with the outcome of the batch.
+	 * @default false
+	 */
+	messageSpans?: boolean
+}
+
+/**
+ * Magic key to identify message bodies wrapped in a trace context carrier
+ */
+const QUEUE_CONTEXT_MARKER = '__otel_queue_ctx__'
+
+interface QueueContextCarrier {
+	[QUEUE_CONTEXT_MARKER]: true
+	headers: Record<string, string>
+	body: unknown
+}
+
+export function isQueueContextCarrier(body: unknown): body is QueueContextCarrier {
+	return (
+		typeof body === 'object' && body !== null && QUEUE_CONTEXT_MARKER in body && body[QUEUE_CONTEXT_MARKER] === true
+	)
+}
+
+function injectQueueContext(body: unknown, ctx: Context = api_context.active()): QueueContextCarrier {
+	const carrier: QueueContextCarrier = { [QUEUE_CONTEXT_MARKER]: true, headers: {}, body }
+	propagation.inject(ctx, carrier.headers, {
+		set: (headers, key, value) => {
+			headers[key] = typeof value === 'string' ? value : String(value)
+		},
+	})
+	return carrier
+}
+
+function extractQueueContext(carrier: QueueContextCarrier): Context {
+	return propagation.extract(api_context.active(), carrier.headers, {
+		get(headers, key) {
+			return headers[key] || undefined
+		},
+		keys(headers) {
+			return Object.keys(headers)
+		},
+	})
+}
+
+function canCarryContext(contentType: QueueContentType | undefined): boolean {
+	// Text and bytes bodies cannot be wrapped in an object
+	return contentType === undefined || contentType === 'json' || contentType === 'v8'
+}
+
+function shouldIncludeTraceContext(): boolean {
+	return getActiveConfig()?.queue.includeTraceContext ?? false
+}
+
+function messageLinks(messages: readonly Message[]): Link[] {
+	return messages.flatMap((message) => {
+		if (!isQueueContextCarrier(message.body)) {
+			return []
+		}
+		const spanContext = trace.getSpanContext(extractQueueContext(message.body))
+		return spanContext && trace.isSpanContextValid(spanContext)
+			? [{ context: spanContext, attributes: { 'messaging.message.id': message.id } }]
+			: []
+	})
+}
+
+type MessageOutcome = 'ack' | 'retry'
+
+// Keyed by the message as delivered to the handler, as every access to `batch.messages` returns a new proxy
+const messageSpanOf = new WeakMap<Message, Span>()
+
+/**
+ * Run the processing of a queue message inside its `<queue> process` span, so that the spans created while
+ * processing it, such as fetches or KV reads, become children of the message span instead of the batch span.
+ * Without `handlers.queue.messageSpans`, `fn` runs in the current context.
+ *
+ * @example
+ * for (const message of batch.messages) {
+ *   await withMessageSpan(message, () => handleOrder(message.body, env))
+ *   message.ack()
+ * }
+ */
+export function withMessageSpan<T>(message: Message, fn: () => T): T {
+	const span = messageSpanOf.get(unwrap(message))
+	return span ? api_context.with(trace.setSpan(api_context.active(), span), fn) : fn()
+}
+
+/**
+ * Tracks a span per message of the batch, keyed by message id.
+ */
+class MessageSpans {
+	private readonly queue: string
+	private readonly acceptTraceContext: boolean
+	private readonly spans = new Map<string, Span>()
+	private readonly ended = new Set<string>()
+
+	constructor(queue: string, acceptTraceContext: boolean) {
+		this.queue = queue
+		this.acceptTraceContext = acceptTraceContext
+	}
+
+	start(msg: Message): void {
+		if (this.spans.has(msg.id)) {
+			return
+		}
+		const tracer = trace.getTracer('queueHandler')
+		const links = this.acceptTraceContext ? messageLinks([msg]) : []
+		const span = tracer.startSpan(`${this.queue} process`, {
+			kind: SpanKind.CONSUMER,
+			attributes: {
+				[ATTR_MESSAGING_OPERATION_TYPE]: MESSAGING_OPERATION_TYPE_VALUE_PROCESS,
+				[ATTR_MESSAGING_DESTINATION_NAME]: this.queue,
+				[ATTR_MESSAGING_MESSAGE_ID]: msg.id,
+				[ATTR_CLOUDFLARE_QUEUE_NAME]: this.queue,
+				[ATTR_CLOUDFLARE_QUEUE_MESSAGE_ATTEMPTS]: msg.attempts,
+				[ATTR_CLOUDFLARE_QUEUE_MESSAGE_TIMESTAMP]: msg.timestamp.toISOString(),
+				[ATTR_CLOUDFLARE_QUEUE_MESSAGE_LAG_MS]: Date.now() - msg.timestamp.getTime(),
+			},
+			links,
+		})
+		this.spans.set(msg.id, span)
+		messageSpanOf.set(msg, span)
+	}
+
+	end(msg: Message, outcome: MessageOutcome): void {
+		const span = this.spans.get(msg.id)
+		if (span && !this.ended.has(msg.id)) {
+			this.endSpan(msg.id, span, outcome)
+		}
+	}
+
+	endRemaining(outcome: MessageOutcome): void {
+		for (const [id, span] of this.spans) {
+			if (!this.ended.has(id)) {
+				this.endSpan(id, span, outcome)
+			}
+		}
+	}
+
+	private endSpan(id: string, span: Span, outcome: MessageOutcome): void {
+		span.setAttribute(ATTR_CLOUDFLARE_QUEUE_MESSAGE_OUTCOME, outcome)
+		if (outcome === 'ack') {
+			span.setStatus({ code: SpanStatusCode.OK })
+		} else {
+			span.setStatus({ code: SpanStatusCode.ERROR, message: 'message retried' })
+		}
+		span.end()
+		this.ended.add(id)
+	}
+}
+
 class MessageStatusCount {
 	succeeded = 0
 	failed = 0
@@ -57,7 +251,7 @@ const addEvent = (name: string, msg?: Message) => {
 	trace.getActiveSpan()?.addEvent(name, attrs)
 }
 
-const proxyQueueMessage = <Q>(msg: Message<Q>, count: MessageStatusCount): Message<Q> => {
+const proxyQueueMessage = <Q>(msg: Message<Q>, count: MessageStatusCount, messageSpans?: MessageSpans): Message<Q> => {
 	const msgHandler: ProxyHandler<Message<Q>> = {
 		get: (target, prop) => {
 			if (prop === 'ack') {
@@ -66,6 +260,7 @@ const proxyQueueMessage = <Q>(msg: Message<Q>, count: MessageStatusCount): Messa
 					apply: (fnTarget) => {
 						addEvent('messageAck', msg)
 						count.ack()
+						messageSpans?.end(msg, 'ack')
 
 						//TODO: handle errors
 						Reflect.apply(fnTarget, msg, [])
@@ -77,11 +272,15 @@ const proxyQueueMessage = <Q>(msg: Message<Q>, count: MessageStatusCount): Messa
 					apply: (fnTarget) => {
 						addEvent('messageRetry', msg)
 						count.retry()
+						messageSpans?.end(msg, 'retry')
 						//TODO: handle errors
 						const result = Reflect.apply(fnTarget, msg, [])
 						return result
 					},
 				})
+			} else if (prop === 'body') {
+				const body = Reflect.get(target, prop, msg)
+				return isQueueContextCarrier(body) ? body.body : body
 			} else {
 				return Reflect.get(target, prop, msg)
 			}
@@ -90,7 +289,7 @@ const proxyQueueMessage = <Q>(msg: Message<Q>, count: MessageStatusCount): Messa
 	return wrap(msg, msgHandler)
 }
 
-const proxyMessageBatch = (batch: MessageBatch, count: MessageStatusCount) => {
+const proxyMessageBatch = (batch: MessageBatch, count: MessageStatusCount, messageSpans?: MessageSpans) => {
 	const batchHandler: ProxyHandler<MessageBatch> = {
 		get: (target, prop) => {
 			if (prop === 'messages') {
@@ -99,7 +298,8 @@ const proxyMessageBatch = (batch: MessageBatch, count: MessageStatusCount) => {
 					get: (target, prop) => {
 						if (typeof prop === 'string' && !isNaN(parseInt(prop))) {
 							const message = Reflect.get(target, prop)
-							return proxyQueueMessage(message, count)
+							messageSpans?.start(message)
+							return proxyQueueMessage(message, count, messageSpans)
 						} else {
 							return Reflect.get(target, prop)
 						}
@@ -112,6 +312,7 @@ const proxyMessageBatch = (batch: MessageBatch, count: MessageStatusCount) => {
 					apply: (fnTarget) => {
 						addEvent('ackAll')
 						count.ackRemaining()
+						messageSpans?.endRemaining('ack')
 						//TODO: handle errors
 						Reflect.apply(fnTarget, batch, [])
 					},
@@ -122,6 +323,7 @@ const proxyMessageBatch = (batch: MessageBatch, count: MessageStatusCount) => {
 					apply: (fnTarget) => {
 						addEvent('retryAll')
 						count.retryRemaining()
+						messageSpans?.endRemaining('retry')
 						//TODO: handle errors
 						Reflect.apply(fnTarget, batch, [])
 					},
@@ -136,8 +338,11 @@ const proxyMessageBatch = (batch: MessageBatch, count: MessageStatusCount) => {
 
 export class QueueInstrumentation implements HandlerInstrumentation<MessageBatch, OrPromise<void>> {
 	private count?: MessageStatusCount
+	// Keyed by batch, as the instrumentation is shared by concurrent invocations
+	private messageSpans = new WeakMap<MessageBatch, MessageSpans>()
 
 	getInitialSpanInfo(batch: MessageBatch): InitialSpanInfo {
+		const acceptTraceContext = getActiveConfig()?.handlers.queue.acceptTraceContext ?? true
 		return {
 			name: `queueHandler ${batch.queue}`,
 			options: {
@@ -147,27 +352,36 @@ export class QueueInstrumentation implements HandlerInstrumentation<MessageBatch
 					[ATTR_CLOUDFLARE_QUEUE_BATCH_SIZE]: batch.messages.length,
 				},
 				kind: SpanKind.CONSUMER,
+				links: acceptTraceContext ? messageLinks(batch.messages) : [],
 			},
 		}
 	}
 
 	instrumentTrigger(batch: MessageBatch): MessageBatch {
 		this.count = new MessageStatusCount(batch.messages.length)
-		return proxyMessageBatch(batch, this.count)
+		const config = getActiveConfig()?.handlers.queue
+		let messageSpans: MessageSpans | undefined
+		if (config?.messageSpans) {
+			messageSpans = new MessageSpans(batch.queue, config.acceptTraceContext ?? true)
+			this.messageSpans.set(batch, messageSpans)
+		}
+		return proxyMessageBatch(batch, this.count, messageSpans)
 	}
 
-	executionSucces(span: Span) {
+	executionSucces(span: Span, batch: MessageBatch) {
 		if (this.count) {
 			this.count.ackRemaining()
 			span.setAttributes(this.count.toAttributes())
 		}
+		this.messageSpans.get(batch)?.endRemaining('ack')
 	}
 
-	executionFailed(span: Span) {
+	executionFailed(span: Span, batch: MessageBatch) {
 		if (this.count) {
 			this.count.retryRemaining()
 			span.setAttributes(this.count.toAttributes())
 		}
+		this.messageSpans.get(batch)?.endRemaining('retry')
 	}
 }
 
@@ -177,6 +391,10 @@ function instrumentQueueSend(fn: Queue<unknown>['send'], name: string): Queue<un
 		apply: (target, thisArg, argArray) => {
 			return tracer.startActiveSpan(`Queues ${name} send`, async (span) => {
 				span.setAttribute('queue.operation', 'send')
+				const [body, options] = argArray as Parameters<Queue<unknown>['send']>
+				if (shouldIncludeTraceContext() && canCarryContext(options?.contentType)) {
+					argArray = [injectQueueContext(body), options]
+				}
 				await Reflect.apply(target, unwrap(thisArg), argArray)
 				span.end()
 			})
@@ -191,6 +409,13 @@ function instrumentQueueSendBatch(fn: Queue<unknown>['sendBatch'], name: string)
 		apply: (target, thisArg, argArray) => {
 			return tracer.startActiveSpan(`Queues ${name} sendBatch`, async (span) => {
 				span.setAttribute('queue.operation', 'sendBatch')
+				const [messages, options] = argArray as Parameters<Queue<unknown>['sendBatch']>
+				if (shouldIncludeTraceContext()) {
+					const withContext = [...messages].map((message) =>
+						canCarryContext(message.contentType) ? { ...message, body: injectQueueContext(message.body) } : message,
+					)
+					argArray = [withContext, options]
+				}
 				await Reflect.apply(target, unwrap(thisArg), argArray)
 				span.end()
 			})
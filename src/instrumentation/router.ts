@@ -0,0 +1,75 @@
+import { context as api_context, trace } from '@opentelemetry/api'
+import { getHandlerSpan } from './common'
+
+/**
+ * Set `http.route` on the span of the handler, or on the active span when called outside of an instrumented
+ * handler. The `fetch` handler span is renamed to `<method> <route>` before it is exported, so span names do not
+ * contain IDs or other high cardinality parts of the path.
+ */
+export function setHttpRoute(route: string): void {
+	const span = getHandlerSpan(api_context.active()) ?? trace.getActiveSpan()
+	span?.setAttribute('http.route', route)
+}
+
+const patterns = new Map<string, URLPattern>()
+
+function getPattern(route: string): URLPattern {
+	let pattern = patterns.get(route)
+	if (!pattern) {
+		pattern = new URLPattern({ pathname: route })
+		patterns.set(route, pattern)
+	}
+	return pattern
+}
+
+/**
+ * Find the first route of the table matching the pathname of the URL. Routes use the `URLPattern` pathname syntax,
+ * for example `/users/:id` or `/assets/*`.
+ */
+export function matchRoute(routes: string[], url: URL): string | undefined {
+	return routes.find((route) => getPattern(route).test({ pathname: url.pathname }))
+}
+
+interface HonoContext {
+	req: { routePath: string }
+}
+
+/**
+ * Hono middleware setting `http.route` to the path of the route that handled the request. Register it before
+ * all other middleware and routes with `app.use(createHonoMiddleware())`.
+ */
+export function createHonoMiddleware() {
+	return async (c: HonoContext, next: () => Promise<void>): Promise<void> => {
+		try {
+			await next()
+		} finally {
+			// After `next`, `routePath` is the path of the last handler that ran
+			if (c.req.routePath) {
+				setHttpRoute(c.req.routePath)
+			}
+		}
+	}
+}
+
+interface IttyRouter {
+	fetch: (request: Request, ...args: any[]) => Promise<any>
+}
+
+/**
+ * Wrap an itty-router router to set `http.route` to the route that handled the request, which itty-router
+ * stores as `request.route`.
+ */
+export function instrumentIttyRouter<R extends IttyRouter>(router: R): R {
+	const fetch = router.fetch.bind(router)
+	// A plain function rather than a proxy, as `instrument` unwraps the `fetch` handler it is given
+	router.fetch = async (request: Request & { route?: string }, ...args: any[]) => {
+		try {
+			return await fetch(request, ...args)
+		} finally {
+			if (request.route) {
+				setHttpRoute(request.route)
+			}
+		}
+	}
+	return router
+}
@@ -1,8 +1,68 @@
+import { context as api_context, Exception, SpanKind, SpanOptions, SpanStatusCode, trace } from '@opentelemetry/api'
 import { passthroughGet, wrap } from '../wrap'
+import { getActiveConfig } from '../config'
+import { ATTR_CLOUDFLARE_JSRPC_METHOD, ATTR_RPC_METHOD, ATTR_RPC_SERVICE, ATTR_RPC_SYSTEM } from '../constants'
 import { instrumentClientFetch } from './fetch'
+import { injectRpcContext } from './rpc-context'
 
-export function instrumentServiceBinding(fetcher: Fetcher, envName: string): Fetcher {
-	const fetcherHandler: ProxyHandler<Fetcher> = {
+export interface RpcConfig {
+	/**
+	 * Whether to pass the trace context as an extra first argument to RPC methods called on service bindings.
+	 * Only enable this once the entrypoints on the other side are instrumented with `instrumentEntrypoint`, which
+	 * removes the argument again. Entrypoints that are not instrumented would receive it as their first argument.
+	 * @default false
+	 */
+	includeTraceContext?: boolean
+}
+
+// Handlers and methods of service bindings and entrypoints that are not RPC calls
+export const NON_RPC_PROPERTIES = new Set(['fetch', 'connect', 'queue', 'scheduled', 'tail', 'trace', 'then'])
+
+function instrumentServiceRpcMethod(method: Function, methodName: string, envName: string): Function {
+	const tracer = trace.getTracer('service_rpc_client')
+
+	const rpcHandler: ProxyHandler<Function> = {
+		apply: (target, thisArg, argArray) => {
+			const options: SpanOptions = {
+				kind: SpanKind.CLIENT,
+				attributes: {
+					[ATTR_RPC_SYSTEM]: 'cloudflare_rpc',
+					[ATTR_RPC_SERVICE]: envName,
+					[ATTR_RPC_METHOD]: methodName,
+					[ATTR_CLOUDFLARE_JSRPC_METHOD]: methodName,
+				},
+			}
+
+			return tracer.startActiveSpan(`RPC ${envName}.${methodName}`, options, (span) => {
+				const onError = (error: unknown) => {
+					span.recordException(error as Exception)
+					span.setStatus({ code: SpanStatusCode.ERROR })
+					span.end()
+				}
+				try {
+					const includeTraceContext = getActiveConfig()?.rpc.includeTraceContext
+					const args = includeTraceContext ? [injectRpcContext(api_context.active()), ...argArray] : argArray
+					// The result is returned as is rather than awaited, so that calls on the stubs it resolves to
+					// can still be pipelined
+					const result = Reflect.apply(target, thisArg, args)
+					Promise.resolve(result).then(() => {
+						span.setStatus({ code: SpanStatusCode.OK })
+						span.end()
+					}, onError)
+					return result
+				} catch (error) {
+					onError(error)
+					throw error
+				}
+			})
+		},
+	}
+
+	return wrap(method, rpcHandler)
+}
+
+export function instrumentServiceBinding<T extends Fetcher>(fetcher: T, envName: string): T {
+	const fetcherHandler: ProxyHandler<T> = {
 		get(target, prop) {
 			if (prop === 'fetch') {
 				const fetcher = Reflect.get(target, prop)
@@ -11,7 +71,11 @@ export function instrumentServiceBinding(fetcher: Fetcher, envName: string): Fet
 				}
 				return instrumentClientFetch(fetcher, () => ({ includeTraceContext: true }), attrs)
 			} else {
-				return passthroughGet(target, prop)
+				const value = passthroughGet(target, prop)
+				if (typeof value === 'function' && typeof prop === 'string' && !NON_RPC_PROPERTIES.has(prop)) {
+					return instrumentServiceRpcMethod(value, prop, envName)
+				}
+				return value
 			}
 		},
 	}
@@ -0,0 +1,262 @@
+import {
+	context as api_context,
+	Attributes,
+	Exception,
+	Span,
+	SpanKind,
+	SpanStatusCode,
+	trace,
+} from '@opentelemetry/api'
+import { ATTR_FAAS_TRIGGER } from '@opentelemetry/semantic-conventions/incubating'
+import type { WorkflowSleepDuration, WorkflowStep, WorkflowStepConfig } from 'cloudflare:workers'
+import { HandlerInstrumentation, InitialSpanInfo, WorkflowTrigger } from '../types'
+import { unwrap, wrap } from '../wrap'
+import {
+	ATTR_CLOUDFLARE_BINDING_NAME,
+	ATTR_CLOUDFLARE_BINDING_TYPE,
+	ATTR_CLOUDFLARE_WORKFLOW_EVENT_TIMESTAMP,
+	ATTR_CLOUDFLARE_WORKFLOW_INSTANCE_ID,
+	ATTR_CLOUDFLARE_WORKFLOW_INSTANCE_STATUS,
+	ATTR_CLOUDFLARE_WORKFLOW_NAME,
+	ATTR_CLOUDFLARE_WORKFLOW_STEP_ATTEMPT,
+	ATTR_CLOUDFLARE_WORKFLOW_STEP_EVENT_TYPE,
+	ATTR_CLOUDFLARE_WORKFLOW_STEP_NAME,
+	ATTR_CLOUDFLARE_WORKFLOW_STEP_OUTCOME,
+	ATTR_CLOUDFLARE_WORKFLOW_STEP_RETRIES_BACKOFF,
+	ATTR_CLOUDFLARE_WORKFLOW_STEP_RETRIES_DELAY,
+	ATTR_CLOUDFLARE_WORKFLOW_STEP_RETRIES_LIMIT,
+	ATTR_CLOUDFLARE_WORKFLOW_STEP_SLEEP_DURATION,
+	ATTR_CLOUDFLARE_WORKFLOW_STEP_TIMEOUT,
+	ATTR_CLOUDFLARE_WORKFLOW_STEP_TYPE,
+} from '../constants'
+
+type StepType = 'do' | 'sleep' | 'sleepUntil' | 'waitForEvent'
+type StepCallback = () => Promise<unknown>
+
+const INSTANCE_METHODS = new Set(['pause', 'resume', 'terminate', 'restart', 'status', 'sendEvent'])
+
+function stepConfigAttributes(config: WorkflowStepConfig | undefined): Attributes {
+	return {
+		[ATTR_CLOUDFLARE_WORKFLOW_STEP_RETRIES_LIMIT]: config?.retries?.limit,
+		[ATTR_CLOUDFLARE_WORKFLOW_STEP_RETRIES_DELAY]: config?.retries?.delay,
+		[ATTR_CLOUDFLARE_WORKFLOW_STEP_RETRIES_BACKOFF]: config?.retries?.backoff,
+		[ATTR_CLOUDFLARE_WORKFLOW_STEP_TIMEOUT]: config?.timeout,
+	}
+}
+
+function stepSpan<T>(
+	workflow: string,
+	type: StepType,
+	name: string,
+	attributes: Attributes,
+	fn: (span: Span, setOutcome: (outcome: string) => void) => Promise<T>,
+): Promise<T> {
+	const tracer = trace.getTracer('workflow')
+	const options = {
+		kind: SpanKind.INTERNAL,
+		attributes: {
+			[ATTR_CLOUDFLARE_WORKFLOW_NAME]: workflow,
+			[ATTR_CLOUDFLARE_WORKFLOW_STEP_NAME]: name,
+			[ATTR_CLOUDFLARE_WORKFLOW_STEP_TYPE]: type,
+			...attributes,
+		},
+	}
+	return tracer.startActiveSpan(`step.${type} ${name}`, options, async (span) => {
+		let outcome = 'success'
+		try {
+			const result = await fn(span, (value) => (outcome = value))
+			span.setStatus({ code: SpanStatusCode.OK })
+			return result
+		} catch (error) {
+			outcome = 'error'
+			span.recordException(error as Exception)
+			span.setStatus({ code: SpanStatusCode.ERROR })
+			throw error
+		} finally {
+			span.setAttribute(ATTR_CLOUDFLARE_WORKFLOW_STEP_OUTCOME, outcome)
+			span.end()
+		}
+	})
+}
+
+function instrumentStepDo(fn: WorkflowStep['do'], workflow: string): WorkflowStep['do'] {
+	const handler: ProxyHandler<WorkflowStep['do']> = {
+		apply: (target, thisArg, argArray) => {
+			const [name, configOrCallback, maybeCallback] = argArray as [
+				string,
+				WorkflowStepConfig | StepCallback,
+				StepCallback?,
+			]
+			const config = typeof configOrCallback === 'function' ? undefined : configOrCallback
+			const callback = (maybeCallback ?? configOrCallback) as StepCallback
+
+			return stepSpan(workflow, 'do', name, stepConfigAttributes(config), async (span, setOutcome) => {
+				let attempt = 0
+				// The runtime calls the callback once per attempt, outside of the context of the step span
+				const tracedCallback = api_context.bind(api_context.active(), async () => {
+					attempt++
+					span.setAttribute(ATTR_CLOUDFLARE_WORKFLOW_STEP_ATTEMPT, attempt)
+					try {
+						return await callback()
+					} catch (error) {
+						span.addEvent('step attempt failed', {
+							[ATTR_CLOUDFLARE_WORKFLOW_STEP_ATTEMPT]: attempt,
+							'exception.message': String((error as Error)?.message ?? error),
+						})
+						throw error
+					}
+				})
+				const args = config ? [name, config, tracedCallback] : [name, tracedCallback]
+				const result = await Reflect.apply(target, unwrap(thisArg), args)
+				// Steps that completed in an earlier invocation return their stored result without running again
+				if (attempt === 0) {
+					setOutcome('cached')
+				}
+				return result
+			})
+		},
+	}
+	return wrap(fn, handler)
+}
+
+function instrumentStepMethod(fn: Function, type: Exclude<StepType, 'do'>, workflow: string): Function {
+	const handler: ProxyHandler<Function> = {
+		apply: (target, thisArg, argArray) => {
+			const [name, arg] = argArray as [string, unknown]
+			const attributes: Attributes = {}
+			if (type === 'sleep') {
+				attributes[ATTR_CLOUDFLARE_WORKFLOW_STEP_SLEEP_DURATION] = arg as WorkflowSleepDuration
+			} else if (type === 'sleepUntil') {
+				attributes[ATTR_CLOUDFLARE_WORKFLOW_STEP_SLEEP_DURATION] = new Date(arg as Date | number).toISOString()
+			} else {
+				const options = arg as Parameters<WorkflowStep['waitForEvent']>[1]
+				attributes[ATTR_CLOUDFLARE_WORKFLOW_STEP_EVENT_TYPE] = options?.type
+				attributes[ATTR_CLOUDFLARE_WORKFLOW_STEP_TIMEOUT] = options?.timeout
+			}
+			return stepSpan(workflow, type, name, attributes, () => Reflect.apply(target, unwrap(thisArg), argArray))
+		},
+	}
+	return wrap(fn, handler)
+}
+
+export function instrumentWorkflowStep(step: WorkflowStep, workflow: string): WorkflowStep {
+	const stepHandler: ProxyHandler<WorkflowStep> = {
+		get: (target, prop) => {
+			const fn = Reflect.get(target, prop)
+			switch (prop) {
+				case 'do':
+					return instrumentStepDo(fn, workflow)
+				case 'sleep':
+				case 'sleepUntil':
+				case 'waitForEvent':
+					return instrumentStepMethod(fn, prop, workflow)
+				default:
+					return fn
+			}
+		},
+	}
+	return wrap(step, stepHandler)
+}
+
+/**
+ * Instrumentation of the `run` method of a `WorkflowEntrypoint`. Every invocation of `run` is traced
+ * as its own trace, with a span for each step.
+ */
+export const workflowInstrumentation: HandlerInstrumentation<WorkflowTrigger, unknown> = {
+	getInitialSpanInfo: (trigger): InitialSpanInfo => {
+		return {
+			name: `workflowRun ${trigger.workflow}`,
+			options: {
+				kind: SpanKind.CONSUMER,
+				attributes: {
+					[ATTR_FAAS_TRIGGER]: 'other',
+					[ATTR_CLOUDFLARE_WORKFLOW_NAME]: trigger.workflow,
+					[ATTR_CLOUDFLARE_WORKFLOW_INSTANCE_ID]: trigger.event.instanceId,
+					[ATTR_CLOUDFLARE_WORKFLOW_EVENT_TIMESTAMP]: new Date(trigger.event.timestamp).toISOString(),
+				},
+			},
+		}
+	},
+	instrumentTrigger: (trigger) => {
+		return { ...trigger, step: instrumentWorkflowStep(trigger.step, trigger.workflow) }
+	},
+	executionSucces: (span) => {
+		span.setStatus({ code: SpanStatusCode.OK })
+	},
+}
+
+function instrumentWorkflowCall(fn: Function, name: string, operation: string, instanceId?: string): Function {
+	const tracer = trace.getTracer('workflow')
+	const handler: ProxyHandler<Function> = {
+		apply: (target, thisArg, argArray) => {
+			const attributes: Attributes = {
+				[ATTR_CLOUDFLARE_BINDING_TYPE]: 'Workflow',
+				[ATTR_CLOUDFLARE_BINDING_NAME]: name,
+				[ATTR_CLOUDFLARE_WORKFLOW_INSTANCE_ID]: instanceId,
+			}
+			if (operation === 'get') {
+				attributes[ATTR_CLOUDFLARE_WORKFLOW_INSTANCE_ID] = argArray[0] as string
+			} else if (operation === 'create') {
+				attributes[ATTR_CLOUDFLARE_WORKFLOW_INSTANCE_ID] = (
+					argArray[0] as WorkflowInstanceCreateOptions | undefined
+				)?.id
+			}
+			return tracer.startActiveSpan(
+				`Workflow ${name} ${operation}`,
+				{ kind: SpanKind.CLIENT, attributes },
+				async (span) => {
+					try {
+						const result = await Reflect.apply(target, unwrap(thisArg), argArray)
+						if (operation === 'create' || operation === 'get') {
+							const instance = result as WorkflowInstance
+							span.setAttribute(ATTR_CLOUDFLARE_WORKFLOW_INSTANCE_ID, instance.id)
+							return instrumentWorkflowInstance(instance, name)
+						} else if (operation === 'createBatch') {
+							return (result as WorkflowInstance[]).map((instance) => instrumentWorkflowInstance(instance, name))
+						} else if (operation === 'status') {
+							span.setAttribute(ATTR_CLOUDFLARE_WORKFLOW_INSTANCE_STATUS, (result as InstanceStatus).status)
+						}
+						return result
+					} catch (error) {
+						span.recordException(error as Exception)
+						span.setStatus({ code: SpanStatusCode.ERROR })
+						throw error
+					} finally {
+						span.end()
+					}
+				},
+			)
+		},
+	}
+	return wrap(fn, handler)
+}
+
+function instrumentWorkflowInstance(instance: WorkflowInstance, name: string): WorkflowInstance {
+	const instanceHandler: ProxyHandler<WorkflowInstance> = {
+		get: (target, prop) => {
+			const value = Reflect.get(target, prop)
+			if (typeof value === 'function' && typeof prop === 'string' && INSTANCE_METHODS.has(prop)) {
+				return instrumentWorkflowCall(value, name, prop, target.id)
+			}
+			return value
+		},
+	}
+	return wrap(instance, instanceHandler)
+}
+
+export function instrumentWorkflowBinding(workflow: Workflow, name: string): Workflow {
+	const workflowHandler: ProxyHandler<Workflow> = {
+		get: (target, prop) => {
+			const value = Reflect.get(target, prop)
+			switch (prop) {
+				case 'create':
+				case 'createBatch':
+				case 'get':
+					return instrumentWorkflowCall(value, name, prop)
+				default:
+					return value
+			}
+		},
+	}
+	return wrap(workflow, workflowHandler)
+}
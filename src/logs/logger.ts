@@ -3,6 +3,8 @@ import { Resource } from '@opentelemetry/resources'
 import { Logger, LogAttributes, LogRecordProcessor, LogRecord } from './types'
 import { LogRecordImpl } from './logrecord'
 import { SEVERITY_NUMBERS } from '../constants'
+import { getActiveLogsConfig } from '../config'
+import { getBaggageAttributes } from '../baggage'
 
 export class WorkerLogger implements Logger {
 	private readonly processors: LogRecordProcessor[]
@@ -26,8 +28,11 @@ export class WorkerLogger implements Logger {
 	}
 
 	emit(logRecord: Partial<LogRecord>): void {
+		const context = api_context.active()
+		const baggageAttributes = getBaggageAttributes(context, getActiveLogsConfig()?.baggageAttributes ?? [])
 		// Merge properties with log-specific attributes
 		const mergedAttributes = {
+			...baggageAttributes,
 			...this.properties,
 			...(logRecord.attributes || {}),
 		}
@@ -42,7 +47,6 @@ export class WorkerLogger implements Logger {
 			},
 		})
 
-		const context = api_context.active()
 		this.processors.forEach((processor) => {
 			processor.onEmit(record, context)
 		})
@@ -1,16 +1,30 @@
 import { ExportResultCode } from '@opentelemetry/core'
 import { OTLPExporterError } from '@opentelemetry/otlp-exporter-base'
+import { ProtobufLogsSerializer } from '@opentelemetry/otlp-transformer'
 import {
 	LogTransport,
 	ReadableLogRecord,
 	ExportResultCallback,
 	OTLPTransportConfig,
+	QueueTransportConfig,
 	ConsoleTransportConfig,
 } from './types'
 import { unwrap } from '../wrap'
-import { DEFAULT_OTLP_HEADERS, SEVERITY_NUMBERS } from '../constants'
+import { compressBody } from '../compression'
+import { fetchWithRetry, resolveRetryConfig, ResolvedRetryConfig } from '../retry'
+import { OTLPQueueMessage, sendToQueue } from '../queueexporter'
+import {
+	DEFAULT_OTLP_HEADERS,
+	OTLP_COMPRESSION_HEADERS,
+	OTLP_PROTOCOL_HEADERS,
+	OTLPCompression,
+	OTLPProtocol,
+	SEVERITY_NUMBERS,
+} from '../constants'
 import { LogLevel } from '../types'
 
+type SdkLogRecord = Parameters<typeof ProtobufLogsSerializer.serializeRequest>[0][number]
+
 function levelToSeverity(level: LogLevel): number {
 	switch (level) {
 		case 'TRACE':
@@ -29,8 +43,162 @@ function levelToSeverity(level: LogLevel): number {
 }
 
 /**
- * OTLP HTTP/JSON Transport for Logs
- * Sends logs to an OpenTelemetry-compatible backend using OTLP/HTTP protocol
+ * Maps a log record onto the shape expected by the OTLP protobuf serializer.
+ * Object bodies are stringified to match the JSON encoding.
+ */
+function toSdkLogRecord(log: ReadableLogRecord): SdkLogRecord {
+	const body = log.body === undefined || typeof log.body === 'string' ? log.body : JSON.stringify(log.body)
+	return {
+		hrTime: log.timeUnixNano,
+		hrTimeObserved: log.observedTimeUnixNano,
+		spanContext:
+			log.traceId && log.spanId
+				? { traceId: log.traceId, spanId: log.spanId, traceFlags: log.traceFlags ?? 0 }
+				: undefined,
+		severityNumber: log.severityNumber as SdkLogRecord['severityNumber'],
+		severityText: log.severityText,
+		body,
+		resource: log.resource,
+		instrumentationScope: log.instrumentationScope,
+		attributes: log.attributes as SdkLogRecord['attributes'],
+		droppedAttributesCount: log.droppedAttributesCount,
+	}
+}
+
+/**
+ * Encode log records as an OTLP export request in the given protocol.
+ */
+export function serializeLogs(logs: ReadableLogRecord[], protocol: OTLPProtocol): string | Uint8Array {
+	if (protocol === 'http/protobuf') {
+		return ProtobufLogsSerializer.serializeRequest(logs.map(toSdkLogRecord)) ?? new Uint8Array()
+	}
+	// Transform to OTLP JSON format
+	return JSON.stringify(transformToOTLP(logs))
+}
+
+function transformToOTLP(logs: ReadableLogRecord[]): any {
+	// Group logs by resource and scope
+	const resourceLogsMap = new Map<string, Map<string, ReadableLogRecord[]>>()
+
+	for (const log of logs) {
+		const resourceKey = JSON.stringify(log.resource.attributes)
+		const scopeKey = JSON.stringify(log.instrumentationScope)
+
+		if (!resourceLogsMap.has(resourceKey)) {
+			resourceLogsMap.set(resourceKey, new Map())
+		}
+
+		const scopeLogsMap = resourceLogsMap.get(resourceKey)!
+		if (!scopeLogsMap.has(scopeKey)) {
+			scopeLogsMap.set(scopeKey, [])
+		}
+
+		scopeLogsMap.get(scopeKey)!.push(log)
+	}
+
+	// Build OTLP structure
+	const resourceLogs: any[] = []
+
+	for (const [resourceKey, scopeLogsMap] of resourceLogsMap) {
+		const resource = logs.find((l) => JSON.stringify(l.resource.attributes) === resourceKey)!.resource
+
+		const scopeLogs: any[] = []
+		for (const [_scopeKey, scopeRecords] of scopeLogsMap) {
+			const scope = scopeRecords[0]!.instrumentationScope
+
+			scopeLogs.push({
+				scope: {
+					name: scope.name,
+					version: scope.version,
+				},
+				logRecords: scopeRecords.map((log) => transformLogRecord(log)),
+			})
+		}
+
+		resourceLogs.push({
+			resource: {
+				attributes: transformAttributes(resource.attributes),
+			},
+			scopeLogs,
+		})
+	}
+
+	return { resourceLogs }
+}
+
+function transformLogRecord(log: ReadableLogRecord): any {
+	const record: any = {
+		timeUnixNano: hrTimeToString(log.timeUnixNano),
+		observedTimeUnixNano: hrTimeToString(log.observedTimeUnixNano),
+		severityNumber: log.severityNumber,
+		severityText: log.severityText,
+		body: transformBody(log.body),
+		attributes: transformAttributes(log.attributes),
+		droppedAttributesCount: log.droppedAttributesCount || 0,
+	}
+
+	if (log.traceId) {
+		record.traceId = log.traceId
+	}
+	if (log.spanId) {
+		record.spanId = log.spanId
+	}
+	if (log.traceFlags !== undefined) {
+		record.flags = log.traceFlags
+	}
+
+	return record
+}
+
+function transformBody(body: any): any {
+	if (body === undefined || body === null) {
+		return undefined
+	}
+	if (typeof body === 'string') {
+		return { stringValue: body }
+	}
+	// For objects, JSON stringify
+	return { stringValue: JSON.stringify(body) }
+}
+
+function transformAttributes(attrs: Record<string, any>): any[] {
+	return Object.entries(attrs).map(([key, value]) => ({
+		key,
+		value: transformAttributeValue(value),
+	}))
+}
+
+function transformAttributeValue(value: any): any {
+	if (typeof value === 'string') {
+		return { stringValue: value }
+	} else if (typeof value === 'number') {
+		if (Number.isInteger(value)) {
+			return { intValue: value.toString() }
+		}
+		return { doubleValue: value }
+	} else if (typeof value === 'boolean') {
+		return { boolValue: value }
+	} else if (Array.isArray(value)) {
+		return {
+			arrayValue: {
+				values: value.map((v) => transformAttributeValue(v)),
+			},
+		}
+	}
+	// Fallback to string
+	return { stringValue: String(value) }
+}
+
+function hrTimeToString(hrTime: [number, number]): string {
+	// Convert [seconds, nanoseconds] to nanoseconds string
+	const nanos = BigInt(hrTime[0]) * BigInt(1_000_000_000) + BigInt(hrTime[1])
+	return nanos.toString()
+}
+
+/**
+ * OTLP HTTP Transport for Logs
+ * Sends logs to an OpenTelemetry-compatible backend using OTLP/HTTP protocol,
+ * encoded as either JSON or protobuf
  */
 export class OTLPTransport implements LogTransport {
 	readonly name = 'otlp'
@@ -38,12 +206,24 @@ export class OTLPTransport implements LogTransport {
 	private url: string
 	private minSeverity: number
 	private fetcher: Fetcher['fetch']
+	private protocol: OTLPProtocol
+	private compression: OTLPCompression
+	private retry: ResolvedRetryConfig
 
 	constructor(config: OTLPTransportConfig) {
 		this.url = config.url
-		this.headers = Object.assign({}, DEFAULT_OTLP_HEADERS, config.headers)
+		this.protocol = config.protocol ?? 'http/json'
+		this.compression = config.compression ?? 'none'
+		this.headers = Object.assign(
+			{},
+			DEFAULT_OTLP_HEADERS,
+			OTLP_PROTOCOL_HEADERS[this.protocol],
+			OTLP_COMPRESSION_HEADERS[this.compression],
+			config.headers,
+		)
 		this.minSeverity = levelToSeverity(config.level ?? 'TRACE')
 		this.fetcher = config.fetcher ?? fetch
+		this.retry = resolveRetryConfig(config.retry)
 	}
 
 	export(logs: ReadableLogRecord[], callback: ExportResultCallback): void {
@@ -71,9 +251,7 @@ export class OTLPTransport implements LogTransport {
 	}
 
 	private async send(logs: ReadableLogRecord[]): Promise<void> {
-		// Transform to OTLP JSON format
-		const otlpLogs = this.transformToOTLP(logs)
-		const body = JSON.stringify(otlpLogs)
+		const body = await compressBody(this.serialize(logs), this.compression)
 
 		const params: RequestInit = {
 			method: 'POST',
@@ -81,135 +259,57 @@ export class OTLPTransport implements LogTransport {
 			body,
 		}
 
-		const response = await unwrap(this.fetcher)(this.url, params)
+		const response = await fetchWithRetry(unwrap(this.fetcher), this.url, params, this.retry)
 
 		if (!response.ok) {
 			throw new OTLPExporterError(`Exporter received a statusCode: ${response.status}`)
 		}
 	}
 
-	private transformToOTLP(logs: ReadableLogRecord[]): any {
-		// Group logs by resource and scope
-		const resourceLogsMap = new Map<string, Map<string, ReadableLogRecord[]>>()
-
-		for (const log of logs) {
-			const resourceKey = JSON.stringify(log.resource.attributes)
-			const scopeKey = JSON.stringify(log.instrumentationScope)
-
-			if (!resourceLogsMap.has(resourceKey)) {
-				resourceLogsMap.set(resourceKey, new Map())
-			}
-
-			const scopeLogsMap = resourceLogsMap.get(resourceKey)!
-			if (!scopeLogsMap.has(scopeKey)) {
-				scopeLogsMap.set(scopeKey, [])
-			}
-
-			scopeLogsMap.get(scopeKey)!.push(log)
-		}
-
-		// Build OTLP structure
-		const resourceLogs: any[] = []
-
-		for (const [resourceKey, scopeLogsMap] of resourceLogsMap) {
-			const resource = logs.find((l) => JSON.stringify(l.resource.attributes) === resourceKey)!.resource
-
-			const scopeLogs: any[] = []
-			for (const [_scopeKey, scopeRecords] of scopeLogsMap) {
-				const scope = scopeRecords[0]!.instrumentationScope
-
-				scopeLogs.push({
-					scope: {
-						name: scope.name,
-						version: scope.version,
-					},
-					logRecords: scopeRecords.map((log) => this.transformLogRecord(log)),
-				})
-			}
-
-			resourceLogs.push({
-				resource: {
-					attributes: this.transformAttributes(resource.attributes),
-				},
-				scopeLogs,
-			})
-		}
-
-		return { resourceLogs }
+	private serialize(logs: ReadableLogRecord[]): string | Uint8Array {
+		return serializeLogs(logs, this.protocol)
 	}
 
-	private transformLogRecord(log: ReadableLogRecord): any {
-		const record: any = {
-			timeUnixNano: this.hrTimeToString(log.timeUnixNano),
-			observedTimeUnixNano: this.hrTimeToString(log.observedTimeUnixNano),
-			severityNumber: log.severityNumber,
-			severityText: log.severityText,
-			body: this.transformBody(log.body),
-			attributes: this.transformAttributes(log.attributes),
-			droppedAttributesCount: log.droppedAttributesCount || 0,
-		}
-
-		if (log.traceId) {
-			record.traceId = log.traceId
-		}
-		if (log.spanId) {
-			record.spanId = log.spanId
-		}
-		if (log.traceFlags !== undefined) {
-			record.flags = log.traceFlags
-		}
-
-		return record
+	async shutdown(): Promise<void> {
+		// No cleanup needed
 	}
+}
 
-	private transformBody(body: any): any {
-		if (body === undefined || body === null) {
-			return undefined
-		}
-		if (typeof body === 'string') {
-			return { stringValue: body }
-		}
-		// For objects, JSON stringify
-		return { stringValue: JSON.stringify(body) }
-	}
+/**
+ * Queue Transport for Logs
+ * Sends serialized OTLP batches to a Cloudflare Queue, to be forwarded by `createOTLPQueueConsumer`
+ */
+export class QueueTransport implements LogTransport {
+	readonly name = 'queue'
+	private queue: Queue<OTLPQueueMessage>
+	private minSeverity: number
+	private protocol: OTLPProtocol
+	private compression: OTLPCompression
 
-	private transformAttributes(attrs: Record<string, any>): any[] {
-		return Object.entries(attrs).map(([key, value]) => ({
-			key,
-			value: this.transformAttributeValue(value),
-		}))
+	constructor(config: QueueTransportConfig) {
+		this.queue = config.queue
+		this.protocol = config.protocol ?? 'http/json'
+		this.compression = config.compression ?? 'none'
+		this.minSeverity = levelToSeverity(config.level ?? 'TRACE')
 	}
 
-	private transformAttributeValue(value: any): any {
-		if (typeof value === 'string') {
-			return { stringValue: value }
-		} else if (typeof value === 'number') {
-			if (Number.isInteger(value)) {
-				return { intValue: value.toString() }
-			}
-			return { doubleValue: value }
-		} else if (typeof value === 'boolean') {
-			return { boolValue: value }
-		} else if (Array.isArray(value)) {
-			return {
-				arrayValue: {
-					values: value.map((v) => this.transformAttributeValue(v)),
-				},
-			}
+	export(logs: ReadableLogRecord[], callback: ExportResultCallback): void {
+		const filteredLogs = logs.filter((log) => (log.severityNumber ?? 0) >= this.minSeverity)
+		if (filteredLogs.length === 0) {
+			callback({ code: ExportResultCode.SUCCESS })
+			return
 		}
-		// Fallback to string
-		return { stringValue: String(value) }
-	}
 
-	private hrTimeToString(hrTime: [number, number]): string {
-		// Convert [seconds, nanoseconds] to nanoseconds string
-		const nanos = BigInt(hrTime[0]) * BigInt(1_000_000_000) + BigInt(hrTime[1])
-		return nanos.toString()
+		sendToQueue(this.queue, 'logs', filteredLogs, serializeLogs, this.protocol, this.compression)
+			.then(() => {
+				callback({ code: ExportResultCode.SUCCESS })
+			})
+			.catch((error) => {
+				callback({ code: ExportResultCode.FAILED, error })
+			})
 	}
 
-	async shutdown(): Promise<void> {
-		// No cleanup needed
-	}
+	async shutdown(): Promise<void> {}
 }
 
 /**
@@ -2,8 +2,10 @@ import { Context, HrTime } from '@opentelemetry/api'
 import { InstrumentationScope } from '@opentelemetry/core'
 import { Resource } from '@opentelemetry/resources'
 import { ExportResult } from '@opentelemetry/core'
-import { SeverityNumber } from '../constants'
+import { OTLPCompression, OTLPProtocol, SeverityNumber } from '../constants'
 import { LogLevel } from '../types'
+import { RetryConfig } from '../retry'
+import { QueueExporterConfig } from '../queueexporter'
 
 export type LogBody = string | Record<string, any>
 
@@ -81,6 +83,25 @@ export interface OTLPTransportConfig {
 	headers?: Record<string, string>
 	level?: LogLevel
 	fetcher?: Fetcher['fetch']
+	/**
+	 * Encoding of the export request body.
+	 * @default 'http/json'
+	 */
+	protocol?: OTLPProtocol
+	/**
+	 * Compression applied to the export request body.
+	 * @default 'none'
+	 */
+	compression?: OTLPCompression
+	/**
+	 * Retry behaviour for failed exports (network errors, 429, 502, 503 and 504).
+	 * Set to `false` to disable retries.
+	 */
+	retry?: RetryConfig | false
+}
+
+export interface QueueTransportConfig extends QueueExporterConfig {
+	level?: LogLevel
 }
 
 export interface ConsoleTransportConfig {
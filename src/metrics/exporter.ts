@@ -0,0 +1,83 @@
+import { ExportResult, ExportResultCode } from '@opentelemetry/core'
+import { OTLPExporterError } from '@opentelemetry/otlp-exporter-base'
+import { JsonMetricsSerializer, ProtobufMetricsSerializer } from '@opentelemetry/otlp-transformer'
+import { PushMetricExporter, ResourceMetrics } from '@opentelemetry/sdk-metrics'
+import { OTLPExporterConfig } from '../exporter'
+import { unwrap } from '../wrap'
+import { compressBody } from '../compression'
+import { fetchWithRetry, resolveRetryConfig, ResolvedRetryConfig } from '../retry'
+import {
+	DEFAULT_OTLP_HEADERS,
+	OTLP_COMPRESSION_HEADERS,
+	OTLP_PROTOCOL_HEADERS,
+	OTLPCompression,
+	OTLPProtocol,
+} from '../constants'
+
+export type OTLPMetricExporterConfig = OTLPExporterConfig
+
+/**
+ * OTLP HTTP Exporter for Metrics
+ * Sends metrics to an OpenTelemetry-compatible backend using OTLP/HTTP protocol,
+ * encoded as either JSON or protobuf
+ */
+export class OTLPMetricExporter implements PushMetricExporter {
+	private headers: Record<string, string>
+	private url: string
+	private fetcher: Fetcher['fetch']
+	private protocol: OTLPProtocol
+	private compression: OTLPCompression
+	private retry: ResolvedRetryConfig
+
+	constructor(config: OTLPMetricExporterConfig) {
+		this.url = config.url
+		this.protocol = config.protocol ?? 'http/json'
+		this.compression = config.compression ?? 'none'
+		this.headers = Object.assign(
+			{},
+			DEFAULT_OTLP_HEADERS,
+			OTLP_PROTOCOL_HEADERS[this.protocol],
+			OTLP_COMPRESSION_HEADERS[this.compression],
+			config.headers,
+		)
+		this.fetcher = config.fetcher ?? fetch
+		this.retry = resolveRetryConfig(config.retry)
+	}
+
+	export(metrics: ResourceMetrics, resultCallback: (result: ExportResult) => void): void {
+		this.send(metrics)
+			.then(() => {
+				resultCallback({ code: ExportResultCode.SUCCESS })
+			})
+			.catch((error) => {
+				resultCallback({ code: ExportResultCode.FAILED, error })
+			})
+	}
+
+	private async send(metrics: ResourceMetrics): Promise<void> {
+		const body = await compressBody(this.serialize(metrics), this.compression)
+		const params: RequestInit = {
+			method: 'POST',
+			headers: this.headers,
+			body,
+		}
+
+		const response = await fetchWithRetry(unwrap(this.fetcher), this.url, params, this.retry)
+
+		if (!response.ok) {
+			throw new OTLPExporterError(`Exporter received a statusCode: ${response.status}`)
+		}
+	}
+
+	private serialize(metrics: ResourceMetrics): string | Uint8Array {
+		if (this.protocol === 'http/protobuf') {
+			return ProtobufMetricsSerializer.serializeRequest(metrics) ?? new Uint8Array()
+		}
+		const decoder = new TextDecoder()
+		return decoder.decode(JsonMetricsSerializer.serializeRequest(metrics))
+	}
+
+	async forceFlush(): Promise<void> {}
+
+	async shutdown(): Promise<void> {}
+}
@@ -0,0 +1,81 @@
+import { metrics } from '@opentelemetry/api'
+import { ExportResultCode } from '@opentelemetry/core'
+import { Resource } from '@opentelemetry/resources'
+import {
+	AggregationTemporality,
+	MeterProvider,
+	MetricReader,
+	PushMetricExporter,
+	ResourceMetrics,
+} from '@opentelemetry/sdk-metrics'
+import { MetricTemporality } from '../types'
+
+function withDataPoints(resourceMetrics: ResourceMetrics): ResourceMetrics {
+	const scopeMetrics = resourceMetrics.scopeMetrics
+		.map((scope) => ({ ...scope, metrics: scope.metrics.filter((metric) => metric.dataPoints.length > 0) }))
+		.filter((scope) => scope.metrics.length > 0)
+	return { ...resourceMetrics, scopeMetrics }
+}
+
+/**
+ * Metric reader pushing the collected metrics to the exporter when it is flushed, instead of on an interval.
+ * Timers do not outlive an invocation, so the provider is flushed at the end of every invocation instead.
+ */
+class InvocationMetricReader extends MetricReader {
+	private exporter: PushMetricExporter
+
+	constructor(exporter: PushMetricExporter, temporality: AggregationTemporality) {
+		super({ aggregationTemporalitySelector: () => temporality })
+		this.exporter = exporter
+	}
+
+	protected async onForceFlush(): Promise<void> {
+		const { resourceMetrics, errors } = await this.collect()
+		if (errors.length > 0) {
+			console.log('collecting metrics failed! ' + errors.join(', '))
+		}
+		const collected = withDataPoints(resourceMetrics)
+		if (collected.scopeMetrics.length === 0) {
+			return
+		}
+		await new Promise<void>((resolve) => {
+			this.exporter.export(collected, (result) => {
+				if (result.code !== ExportResultCode.SUCCESS) {
+					console.log('exporting metrics failed! ' + result.error)
+				}
+				resolve()
+			})
+		})
+	}
+
+	protected async onShutdown(): Promise<void> {
+		await this.onForceFlush()
+		await this.exporter.shutdown()
+	}
+}
+
+/**
+ * `MeterProvider` of the metrics SDK exporting through a single push exporter whenever it is flushed.
+ */
+export class WorkerMeterProvider extends MeterProvider {
+	constructor(exporter: PushMetricExporter, resource: Resource, temporality: MetricTemporality = 'delta') {
+		const aggregationTemporality =
+			temporality === 'delta' ? AggregationTemporality.DELTA : AggregationTemporality.CUMULATIVE
+		super({ resource, readers: [new InvocationMetricReader(exporter, aggregationTemporality)] })
+	}
+
+	register(): void {
+		metrics.setGlobalMeterProvider(this)
+	}
+}
+
+/**
+ * Export the metrics recorded so far, if metrics are configured. Called by `exportTelemetry`, and at the end of
+ * every Durable Object invocation, whose spans are exported as each trace ends rather than through `exportTelemetry`.
+ */
+export async function flushMetrics(): Promise<void> {
+	const meterProvider = metrics.getMeterProvider()
+	if (meterProvider instanceof WorkerMeterProvider) {
+		await meterProvider.forceFlush()
+	}
+}
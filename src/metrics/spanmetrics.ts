@@ -0,0 +1,70 @@
+import { Attributes, Counter, Histogram, Meter, SpanStatusCode } from '@opentelemetry/api'
+import { hrTimeToMilliseconds } from '@opentelemetry/core'
+import { ReadableSpan, Span } from '@opentelemetry/sdk-trace-base'
+import { ATTR_CLOUDFLARE_BINDING_NAME, ATTR_CLOUDFLARE_BINDING_TYPE, ATTR_DB_OPERATION_NAME } from '../constants'
+import { TraceFlushableSpanProcessor } from '../types'
+
+const HANDLER_ATTRIBUTES = ['faas.trigger', 'http.request.method', 'http.route', 'http.response.status_code']
+const BINDING_ATTRIBUTES = [ATTR_CLOUDFLARE_BINDING_TYPE, ATTR_CLOUDFLARE_BINDING_NAME, ATTR_DB_OPERATION_NAME]
+
+interface REDInstruments {
+	requests: Counter
+	errors: Counter
+	duration: Histogram
+}
+
+function createInstruments(meter: Meter, prefix: string, kind: string): REDInstruments {
+	return {
+		requests: meter.createCounter(`${prefix}.requests`, { description: `Number of ${kind}`, unit: '{request}' }),
+		errors: meter.createCounter(`${prefix}.errors`, { description: `Number of failed ${kind}`, unit: '{request}' }),
+		duration: meter.createHistogram(`${prefix}.duration`, { description: `Duration of ${kind}`, unit: 'ms' }),
+	}
+}
+
+function pickAttributes(span: ReadableSpan, keys: string[]): Attributes {
+	const attributes: Attributes = {}
+	for (const key of keys) {
+		const value = span.attributes[key]
+		if (value !== undefined) {
+			attributes[key] = value
+		}
+	}
+	return attributes
+}
+
+/**
+ * Derives rate, error and duration (RED) metrics from ended spans.
+ * Handler spans are recognised by their `faas.trigger` attribute, binding spans by `cloudflare.binding.type`.
+ * Spans are counted before tail sampling, so the metrics are accurate regardless of the sampling ratio.
+ */
+export class SpanMetricsProcessor implements TraceFlushableSpanProcessor {
+	private handler: REDInstruments
+	private binding: REDInstruments
+
+	constructor(meter: Meter) {
+		this.handler = createInstruments(meter, 'cloudflare.handler', 'handler invocations')
+		this.binding = createInstruments(meter, 'cloudflare.binding', 'binding operations')
+	}
+
+	onStart(_span: Span): void {}
+
+	onEnd(span: ReadableSpan): void {
+		if (span.attributes['faas.trigger'] !== undefined) {
+			this.record(this.handler, span, pickAttributes(span, HANDLER_ATTRIBUTES))
+		} else if (span.attributes[ATTR_CLOUDFLARE_BINDING_TYPE] !== undefined) {
+			this.record(this.binding, span, pickAttributes(span, BINDING_ATTRIBUTES))
+		}
+	}
+
+	private record(instruments: REDInstruments, span: ReadableSpan, attributes: Attributes): void {
+		instruments.requests.add(1, attributes)
+		if (span.status.code === SpanStatusCode.ERROR) {
+			instruments.errors.add(1, attributes)
+		}
+		instruments.duration.record(hrTimeToMilliseconds(span.duration), attributes)
+	}
+
+	async forceFlush(): Promise<void> {}
+
+	async shutdown(): Promise<void> {}
+}
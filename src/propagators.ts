@@ -0,0 +1,262 @@
+import {
+	Context,
+	isSpanContextValid,
+	SpanContext,
+	TextMapGetter,
+	TextMapPropagator,
+	TextMapSetter,
+	trace,
+	TraceFlags,
+} from '@opentelemetry/api'
+import { isTracingSuppressed } from '@opentelemetry/core'
+
+const TRACE_ID_PATTERN = /^([0-9a-f]{16}){1,2}$/
+const SPAN_ID_PATTERN = /^[0-9a-f]{16}$/
+
+function getHeader(carrier: unknown, getter: TextMapGetter, key: string): string | undefined {
+	const value = getter.get(carrier, key)
+	return Array.isArray(value) ? value[0] : value
+}
+
+function spanContextToInject(context: Context): SpanContext | undefined {
+	const spanContext = trace.getSpanContext(context)
+	if (!spanContext || !isSpanContextValid(spanContext) || isTracingSuppressed(context)) {
+		return undefined
+	}
+	return spanContext
+}
+
+function withRemoteSpanContext(
+	context: Context,
+	traceId: string,
+	spanId: string,
+	sampled: boolean | undefined,
+): Context {
+	const spanContext: SpanContext = {
+		// 64 bit trace ids are left padded to the 128 bit W3C trace ids
+		traceId: traceId.padStart(32, '0'),
+		spanId,
+		traceFlags: sampled ? TraceFlags.SAMPLED : TraceFlags.NONE,
+		isRemote: true,
+	}
+	return isSpanContextValid(spanContext) ? trace.setSpanContext(context, spanContext) : context
+}
+
+export type B3InjectEncoding = 'single' | 'multi'
+
+export interface B3PropagatorConfig {
+	/**
+	 * Inject the single `b3` header or the `x-b3-*` headers. Both are always extracted.
+	 * @default 'single'
+	 */
+	injectEncoding?: B3InjectEncoding
+}
+
+const B3_HEADER = 'b3'
+const B3_TRACE_ID_HEADER = 'x-b3-traceid'
+const B3_SPAN_ID_HEADER = 'x-b3-spanid'
+const B3_PARENT_SPAN_ID_HEADER = 'x-b3-parentspanid'
+const B3_SAMPLED_HEADER = 'x-b3-sampled'
+const B3_FLAGS_HEADER = 'x-b3-flags'
+
+function parseB3Sampled(value: string | undefined): boolean | undefined {
+	switch (value?.toLowerCase()) {
+		case '1':
+		case 'd':
+		case 'true':
+			return true
+		case '0':
+		case 'false':
+			return false
+		default:
+			return undefined
+	}
+}
+
+/**
+ * Zipkin B3 propagator, as used by Envoy and most service meshes.
+ * See https://github.com/openzipkin/b3-propagation.
+ */
+export class B3Propagator implements TextMapPropagator {
+	private readonly injectEncoding: B3InjectEncoding
+
+	constructor(config: B3PropagatorConfig = {}) {
+		this.injectEncoding = config.injectEncoding ?? 'single'
+	}
+
+	inject(context: Context, carrier: unknown, setter: TextMapSetter): void {
+		const spanContext = spanContextToInject(context)
+		if (!spanContext) {
+			return
+		}
+		const sampled = (spanContext.traceFlags & TraceFlags.SAMPLED) === TraceFlags.SAMPLED ? '1' : '0'
+		if (this.injectEncoding === 'single') {
+			setter.set(carrier, B3_HEADER, `${spanContext.traceId}-${spanContext.spanId}-${sampled}`)
+		} else {
+			setter.set(carrier, B3_TRACE_ID_HEADER, spanContext.traceId)
+			setter.set(carrier, B3_SPAN_ID_HEADER, spanContext.spanId)
+			setter.set(carrier, B3_SAMPLED_HEADER, sampled)
+		}
+	}
+
+	extract(context: Context, carrier: unknown, getter: TextMapGetter): Context {
+		const single = getHeader(carrier, getter, B3_HEADER)
+		if (single) {
+			const [traceId, spanId, sampled] = single.trim().toLowerCase().split('-')
+			if (traceId && spanId && TRACE_ID_PATTERN.test(traceId) && SPAN_ID_PATTERN.test(spanId)) {
+				return withRemoteSpanContext(context, traceId, spanId, parseB3Sampled(sampled))
+			}
+		}
+
+		const traceId = getHeader(carrier, getter, B3_TRACE_ID_HEADER)?.trim().toLowerCase()
+		const spanId = getHeader(carrier, getter, B3_SPAN_ID_HEADER)?.trim().toLowerCase()
+		if (!traceId || !spanId || !TRACE_ID_PATTERN.test(traceId) || !SPAN_ID_PATTERN.test(spanId)) {
+			return context
+		}
+		// The debug flag implies a sampled trace
+		const debug = getHeader(carrier, getter, B3_FLAGS_HEADER) === '1'
+		const sampled = debug || parseB3Sampled(getHeader(carrier, getter, B3_SAMPLED_HEADER))
+		return withRemoteSpanContext(context, traceId, spanId, sampled)
+	}
+
+	fields(): string[] {
+		return this.injectEncoding === 'single'
+			? [B3_HEADER]
+			: [B3_TRACE_ID_HEADER, B3_SPAN_ID_HEADER, B3_SAMPLED_HEADER, B3_FLAGS_HEADER, B3_PARENT_SPAN_ID_HEADER]
+	}
+}
+
+const JAEGER_HEADER = 'uber-trace-id'
+const JAEGER_SAMPLED_FLAG = 0x1
+
+/**
+ * Jaeger propagator using the `uber-trace-id` header.
+ * See https://www.jaegertracing.io/docs/latest/client-libraries/#propagation-format.
+ */
+export class JaegerPropagator implements TextMapPropagator {
+	inject(context: Context, carrier: unknown, setter: TextMapSetter): void {
+		const spanContext = spanContextToInject(context)
+		if (!spanContext) {
+			return
+		}
+		const flags = (spanContext.traceFlags & TraceFlags.SAMPLED) === TraceFlags.SAMPLED ? '01' : '00'
+		setter.set(carrier, JAEGER_HEADER, `${spanContext.traceId}:${spanContext.spanId}:0:${flags}`)
+	}
+
+	extract(context: Context, carrier: unknown, getter: TextMapGetter): Context {
+		const header = getHeader(carrier, getter, JAEGER_HEADER)
+		if (!header) {
+			return context
+		}
+		// Some clients URL encode the separators
+		const [traceId, spanId, , flags] = header.replace(/%3a/gi, ':').trim().toLowerCase().split(':')
+		if (!traceId || !spanId || flags === undefined || !/^[0-9a-f]{1,32}$/.test(traceId)) {
+			return context
+		}
+		const paddedSpanId = spanId.padStart(16, '0')
+		if (!SPAN_ID_PATTERN.test(paddedSpanId)) {
+			return context
+		}
+		const sampled = (parseInt(flags, 16) & JAEGER_SAMPLED_FLAG) === JAEGER_SAMPLED_FLAG
+		return withRemoteSpanContext(context, traceId, paddedSpanId, sampled)
+	}
+
+	fields(): string[] {
+		return [JAEGER_HEADER]
+	}
+}
+
+const XRAY_HEADER = 'x-amzn-trace-id'
+const XRAY_TRACE_ID_PATTERN = /^1-([0-9a-f]{8})-([0-9a-f]{24})$/
+
+/**
+ * AWS X-Ray propagator using the `X-Amzn-Trace-Id` header, as used by Lambda and API Gateway.
+ * See https://docs.aws.amazon.com/xray/latest/devguide/xray-concepts.html#xray-concepts-tracingheader.
+ */
+export class AWSXRayPropagator implements TextMapPropagator {
+	inject(context: Context, carrier: unknown, setter: TextMapSetter): void {
+		const spanContext = spanContextToInject(context)
+		if (!spanContext) {
+			return
+		}
+		const { traceId, spanId } = spanContext
+		const sampled = (spanContext.traceFlags & TraceFlags.SAMPLED) === TraceFlags.SAMPLED ? '1' : '0'
+		setter.set(
+			carrier,
+			XRAY_HEADER,
+			`Root=1-${traceId.slice(0, 8)}-${traceId.slice(8)};Parent=${spanId};Sampled=${sampled}`,
+		)
+	}
+
+	extract(context: Context, carrier: unknown, getter: TextMapGetter): Context {
+		const header = getHeader(carrier, getter, XRAY_HEADER)
+		if (!header) {
+			return context
+		}
+		const fields = new Map(
+			header.split(';').map((field) => {
+				const [key = '', value = ''] = field.split('=')
+				return [key.trim().toLowerCase(), value.trim().toLowerCase()]
+			}),
+		)
+		const root = XRAY_TRACE_ID_PATTERN.exec(fields.get('root') ?? '')
+		const spanId = fields.get('parent')
+		if (!root || !spanId || !SPAN_ID_PATTERN.test(spanId)) {
+			return context
+		}
+		return withRemoteSpanContext(context, `${root[1]}${root[2]}`, spanId, fields.get('sampled') === '1')
+	}
+
+	fields(): string[] {
+		return [XRAY_HEADER]
+	}
+}
+
+/**
+ * Propagator combining several propagators. All of them inject, while the span context is extracted by the first
+ * propagator that finds one in the carrier. Propagators that do not carry a span context, like baggage, always extract.
+ *
+ * @example
+ * const propagator = new CompositeTracePropagator([new W3CTraceContextPropagator(), new B3Propagator(), new AWSXRayPropagator()])
+ */
+export class CompositeTracePropagator implements TextMapPropagator {
+	private readonly propagators: TextMapPropagator[]
+	private readonly fieldNames: string[]
+
+	constructor(propagators: TextMapPropagator[]) {
+		this.propagators = propagators
+		this.fieldNames = [...new Set(propagators.flatMap((propagator) => propagator.fields()))]
+	}
+
+	inject(context: Context, carrier: unknown, setter: TextMapSetter): void {
+		for (const propagator of this.propagators) {
+			try {
+				propagator.inject(context, carrier, setter)
+			} catch (e) {
+				console.log(`Injecting context with ${propagator.constructor.name} failed: ${e}`)
+			}
+		}
+	}
+
+	extract(context: Context, carrier: unknown, getter: TextMapGetter): Context {
+		const initialSpanContext = trace.getSpanContext(context)
+		return this.propagators.reduce((current, propagator) => {
+			let extracted: Context
+			try {
+				extracted = propagator.extract(current, carrier, getter)
+			} catch (e) {
+				console.log(`Extracting context with ${propagator.constructor.name} failed: ${e}`)
+				return current
+			}
+			const spanContext = trace.getSpanContext(current)
+			if (spanContext && spanContext !== initialSpanContext) {
+				return trace.setSpanContext(extracted, spanContext)
+			}
+			return extracted
+		}, context)
+	}
+
+	fields(): string[] {
+		return this.fieldNames
+	}
+}
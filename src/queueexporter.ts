@@ -0,0 +1,254 @@
+import { ExportResult, ExportResultCode } from '@opentelemetry/core'
+import { ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-base'
+import { serializeSpans } from './exporter'
+import { unwrap } from './wrap'
+import { compressBody, decompressBody } from './compression'
+import { fetchWithRetry, isRetryableStatus, parseRetryAfter, resolveRetryConfig, ResolvedRetryConfig } from './retry'
+import {
+	DEFAULT_OTLP_HEADERS,
+	OTLP_COMPRESSION_HEADERS,
+	OTLP_PROTOCOL_HEADERS,
+	OTLPCompression,
+	OTLPProtocol,
+} from './constants'
+
+export type OTLPSignal = 'traces' | 'logs'
+
+/**
+ * A serialized OTLP export request, as sent to the queue by `QueueSpanExporter` and `QueueTransport`.
+ */
+export interface OTLPQueueMessage {
+	signal: OTLPSignal
+	protocol: OTLPProtocol
+	compression: OTLPCompression
+	body: string | Uint8Array | ArrayBuffer
+}
+
+export interface QueueExporterConfig {
+	/**
+	 * Queue producer binding the export requests are sent to.
+	 */
+	queue: Queue<OTLPQueueMessage>
+	/**
+	 * Encoding of the export request body.
+	 * @default 'http/json'
+	 */
+	protocol?: OTLPProtocol
+	/**
+	 * Compression applied to the export request body. Queue messages are limited to 128 KB, batches exceeding
+	 * the limit are split across several messages, so compressing larger batches saves messages.
+	 * @default 'none'
+	 */
+	compression?: OTLPCompression
+}
+
+// Queue messages are limited to 128 KB, some room is left for the other fields of the message
+const MAX_MESSAGE_BYTES = 120 * 1024
+
+const RESOURCE_KEYS: Record<OTLPSignal, string> = {
+	traces: 'resourceSpans',
+	logs: 'resourceLogs',
+}
+
+function byteLength(body: string | Uint8Array | ArrayBuffer): number {
+	return typeof body === 'string' ? new TextEncoder().encode(body).byteLength : body.byteLength
+}
+
+/**
+ * Merge serialized export requests of the same signal and protocol into a single request.
+ */
+export function mergeExportRequests(
+	signal: OTLPSignal,
+	protocol: OTLPProtocol,
+	bodies: (string | Uint8Array)[],
+): string | Uint8Array {
+	if (protocol === 'http/protobuf') {
+		// Concatenated protobuf messages decode as one message with their repeated fields appended
+		const chunks = bodies.map((body) => (typeof body === 'string' ? new TextEncoder().encode(body) : body))
+		const merged = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.byteLength, 0))
+		let offset = 0
+		for (const chunk of chunks) {
+			merged.set(chunk, offset)
+			offset += chunk.byteLength
+		}
+		return merged
+	}
+	const key = RESOURCE_KEYS[signal]
+	const resources = bodies.flatMap((body) => {
+		const request = JSON.parse(typeof body === 'string' ? body : new TextDecoder().decode(body))
+		return request[key] ?? []
+	})
+	return JSON.stringify({ [key]: resources })
+}
+
+/**
+ * Serialize items into export requests no larger than a queue message.
+ * Batches that are too large are split in half until they fit, a single item that does not fit is sent as is.
+ */
+async function toMessages<T>(
+	signal: OTLPSignal,
+	items: T[],
+	serialize: (items: T[], protocol: OTLPProtocol) => string | Uint8Array,
+	protocol: OTLPProtocol,
+	compression: OTLPCompression,
+): Promise<OTLPQueueMessage[]> {
+	const body = await compressBody(serialize(items, protocol), compression)
+	if (byteLength(body) <= MAX_MESSAGE_BYTES || items.length <= 1) {
+		return [{ signal, protocol, compression, body }]
+	}
+	const half = Math.ceil(items.length / 2)
+	const messages = await Promise.all([
+		toMessages(signal, items.slice(0, half), serialize, protocol, compression),
+		toMessages(signal, items.slice(half), serialize, protocol, compression),
+	])
+	return messages.flat()
+}
+
+/**
+ * Send serialized export requests to a queue, split across several messages if they exceed the message size limit.
+ * Queue bindings are instrumented by `instrumentEnv`, so the binding is unwrapped to avoid tracing the export itself.
+ */
+export async function sendToQueue<T>(
+	queue: Queue<OTLPQueueMessage>,
+	signal: OTLPSignal,
+	items: T[],
+	serialize: (items: T[], protocol: OTLPProtocol) => string | Uint8Array,
+	protocol: OTLPProtocol,
+	compression: OTLPCompression,
+): Promise<void> {
+	const messages = await toMessages(signal, items, serialize, protocol, compression)
+	await Promise.all(messages.map((message) => unwrap(queue).send(message)))
+}
+
+/**
+ * Span exporter that hands serialized OTLP batches to a Cloudflare Queue instead of sending them to a collector.
+ * Pair it with `createOTLPQueueConsumer` in the consuming worker.
+ */
+export class QueueSpanExporter implements SpanExporter {
+	private queue: Queue<OTLPQueueMessage>
+	private protocol: OTLPProtocol
+	private compression: OTLPCompression
+
+	constructor(config: QueueExporterConfig) {
+		this.queue = config.queue
+		this.protocol = config.protocol ?? 'http/json'
+		this.compression = config.compression ?? 'none'
+	}
+
+	export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+		sendToQueue(this.queue, 'traces', spans, serializeSpans, this.protocol, this.compression)
+			.then(() => {
+				resultCallback({ code: ExportResultCode.SUCCESS })
+			})
+			.catch((error) => {
+				resultCallback({ code: ExportResultCode.FAILED, error })
+			})
+	}
+
+	async shutdown(): Promise<void> {}
+}
+
+export interface OTLPEndpointConfig {
+	url: string
+	headers?: Record<string, string>
+	fetcher?: Fetcher['fetch']
+}
+
+export type OTLPQueueConsumerConfig = Partial<Record<OTLPSignal, OTLPEndpointConfig>>
+
+type OTLPQueueHandler<Env> = (batch: MessageBatch<OTLPQueueMessage>, env: Env, ctx: ExecutionContext) => Promise<void>
+
+/**
+ * Post a serialized export request to an OTLP endpoint, with headers matching its encoding.
+ * Only a single attempt is made unless a retry config is passed.
+ */
+export function postOTLP(
+	endpoint: OTLPEndpointConfig,
+	message: OTLPQueueMessage,
+	retry: ResolvedRetryConfig = resolveRetryConfig(false),
+): Promise<Response> {
+	const headers = Object.assign(
+		{},
+		DEFAULT_OTLP_HEADERS,
+		OTLP_PROTOCOL_HEADERS[message.protocol],
+		OTLP_COMPRESSION_HEADERS[message.compression],
+		endpoint.headers,
+	)
+	const params: RequestInit = { method: 'POST', headers, body: message.body }
+	return fetchWithRetry(unwrap(endpoint.fetcher ?? fetch), endpoint.url, params, retry)
+}
+
+/**
+ * Merge the export requests of queue messages sharing a signal, protocol and compression into one request.
+ */
+async function mergeMessages(messages: OTLPQueueMessage[]): Promise<OTLPQueueMessage> {
+	const [first] = messages
+	if (messages.length === 1) {
+		return first!
+	}
+	const { signal, protocol, compression } = first!
+	const bodies = await Promise.all(messages.map((message) => decompressBody(message.body, compression)))
+	const body = await compressBody(mergeExportRequests(signal, protocol, bodies), compression)
+	return { signal, protocol, compression, body }
+}
+
+async function forwardMessages(messages: Message<OTLPQueueMessage>[], endpoint: OTLPEndpointConfig): Promise<void> {
+	const signal = messages[0]!.body.signal
+	let response: Response
+	try {
+		response = await postOTLP(endpoint, await mergeMessages(messages.map((message) => message.body)))
+	} catch (e) {
+		console.log(`Forwarding ${signal} failed, retrying: ${e}`)
+		messages.forEach((message) => message.retry())
+		return
+	}
+
+	if (response.ok) {
+		messages.forEach((message) => message.ack())
+	} else if (isRetryableStatus(response.status)) {
+		const retryAfter = parseRetryAfter(response.headers.get('retry-after'))
+		const options = retryAfter === undefined ? undefined : { delaySeconds: Math.ceil(retryAfter / 1000) }
+		messages.forEach((message) => message.retry(options))
+	} else {
+		// The collector rejected the payload, redelivering it would not help
+		console.log(`Forwarding ${signal} failed with status ${response.status}, dropping messages`)
+		messages.forEach((message) => message.ack())
+	}
+	await response.body?.cancel()
+}
+
+/**
+ * Create a queue handler that forwards the batches produced by `QueueSpanExporter` and `QueueTransport`
+ * to an OTLP endpoint. The messages of a batch are merged into one request per signal and encoding.
+ * Failed deliveries are retried through the queue's own redelivery.
+ *
+ * @example
+ * export default {
+ *   queue: createOTLPQueueConsumer((env: Env) => ({
+ *     traces: { url: 'https://collector.example/v1/traces', headers: { 'x-api-key': env.API_KEY } },
+ *     logs: { url: 'https://collector.example/v1/logs', headers: { 'x-api-key': env.API_KEY } },
+ *   })),
+ * }
+ */
+export function createOTLPQueueConsumer<Env = any>(
+	config: OTLPQueueConsumerConfig | ((env: Env) => OTLPQueueConsumerConfig),
+): OTLPQueueHandler<Env> {
+	return async (batch, env) => {
+		const endpoints = typeof config === 'function' ? config(env) : config
+		// Messages sharing an endpoint and encoding are forwarded as a single request
+		const groups = new Map<string, Message<OTLPQueueMessage>[]>()
+		for (const message of batch.messages) {
+			const { signal, protocol, compression } = message.body
+			if (!endpoints[signal]) {
+				console.log(`No OTLP endpoint configured for ${signal}, dropping message`)
+				message.ack()
+				continue
+			}
+			const key = `${signal}:${protocol}:${compression}`
+			groups.set(key, [...(groups.get(key) ?? []), message])
+		}
+		await Promise.all(
+			[...groups.values()].map((messages) => forwardMessages(messages, endpoints[messages[0]!.body.signal]!)),
+		)
+	}
+}
@@ -0,0 +1,189 @@
+import { Context, Span } from '@opentelemetry/api'
+import { ReadableSpan } from '@opentelemetry/sdk-trace-base'
+import { serializeSpans } from './exporter'
+import { compressBody } from './compression'
+import { LocalTrace } from './sampling'
+import { BatchTraceSpanProcessor } from './spanprocessor'
+import { TraceFlushableSpanProcessor } from './types'
+import { unwrap } from './wrap'
+
+export type ArchiveMode = 'all' | 'sampled' | 'dropped'
+
+export interface R2ArchiveConfig {
+	bucket: R2Bucket
+	/**
+	 * Which traces to archive. `sampled` and `dropped` depend on the tail sampling decision
+	 * of the processor passed as `decisions`.
+	 * @default 'all'
+	 */
+	archive?: ArchiveMode
+	/**
+	 * The `BatchTraceSpanProcessor` exporting the traces, whose tail sampling decisions are followed.
+	 * Required for the `sampled` and `dropped` modes.
+	 */
+	decisions?: BatchTraceSpanProcessor
+	/**
+	 * Prefix prepended to every object key.
+	 * @default ''
+	 */
+	prefix?: string
+}
+
+function datePath(span: ReadableSpan): string {
+	return new Date(span.startTime[0] * 1000).toISOString().slice(0, 10).replaceAll('-', '/')
+}
+
+// Decisions are kept for later flushes of the same trace, which the tail sampler does not decide again
+const MAX_TRACE_DECISIONS = 1000
+// The tail sampler decides when the last open span of the trace ends, so a decision not made by then is not coming
+const DECISION_TIMEOUT_MS = 100
+
+/**
+ * Span processor archiving traces to R2 as gzipped OTLP JSON, keyed by
+ * `<prefix><yyyy>/<mm>/<dd>/<service>/<traceId>-<spanId>.json.gz`. A trace is written once all of its spans
+ * have ended, like the `BatchTraceSpanProcessor` exports it. Every flush of a trace writes its own object,
+ * suffixed with the ID of the first span it holds, so spans flushed earlier are never overwritten.
+ *
+ * To archive only the traces dropped (or kept) by the tail sampler, pass the `BatchTraceSpanProcessor`
+ * doing the export as `decisions`:
+ *
+ * @example
+ * const processor = new BatchTraceSpanProcessor(exporter)
+ * const archive = new R2ArchiveSpanProcessor({ bucket: env.TRACE_ARCHIVE, archive: 'dropped', decisions: processor })
+ * const spanProcessors = [processor, archive]
+ */
+export class R2ArchiveSpanProcessor implements TraceFlushableSpanProcessor {
+	private bucket: R2Bucket
+	private archive: ArchiveMode
+	private prefix: string
+	private traces = new Map<string, ReadableSpan[]>()
+	private inProgressSpans = new Map<string, Set<string>>()
+	private flushes = new Set<Promise<void>>()
+	private decisions = new Map<string, boolean>()
+	private pendingDecisions = new Map<string, ((sampled: boolean) => void)[]>()
+
+	constructor(config: R2ArchiveConfig) {
+		this.bucket = unwrap(config.bucket)
+		this.archive = config.archive ?? 'all'
+		this.prefix = config.prefix ?? ''
+		if (this.archive !== 'all') {
+			if (!config.decisions) {
+				throw new Error(`Archiving ${this.archive} traces needs the BatchTraceSpanProcessor passed as \`decisions\``)
+			}
+			config.decisions.addTraceDecisionListener(this.onTraceDecision)
+		}
+	}
+
+	onTraceDecision = (traceInfo: LocalTrace, sampled: boolean): void => {
+		const traceId = traceInfo.traceId
+		this.decisions.delete(traceId)
+		this.decisions.set(traceId, sampled)
+		if (this.decisions.size > MAX_TRACE_DECISIONS) {
+			this.decisions.delete(this.decisions.keys().next().value!)
+		}
+		for (const resolve of this.pendingDecisions.get(traceId) ?? []) {
+			resolve(sampled)
+		}
+		this.pendingDecisions.delete(traceId)
+	}
+
+	onStart(span: Span, _parentContext: Context): void {
+		const traceId = span.spanContext().traceId
+		const inProgress = this.inProgressSpans.get(traceId) ?? new Set()
+		inProgress.add(span.spanContext().spanId)
+		this.inProgressSpans.set(traceId, inProgress)
+	}
+
+	onEnd(span: ReadableSpan): void {
+		const traceId = span.spanContext().traceId
+		const spans = this.traces.get(traceId) ?? []
+		spans.push(span)
+		this.traces.set(traceId, spans)
+
+		const inProgress = this.inProgressSpans.get(traceId)
+		inProgress?.delete(span.spanContext().spanId)
+		if (!inProgress || inProgress.size === 0) {
+			this.inProgressSpans.delete(traceId)
+			this.track(this.flushTrace(traceId, true))
+		}
+	}
+
+	async forceFlush(traceId?: string): Promise<void> {
+		if (traceId) {
+			this.track(this.flushTrace(traceId, true))
+		} else {
+			// Flushing everything, e.g. on shutdown, does not wait for traces that were never decided
+			for (const id of this.traces.keys()) {
+				this.track(this.flushTrace(id, false))
+			}
+		}
+		await Promise.allSettled([...this.flushes])
+	}
+
+	private track(flush: Promise<void>): void {
+		this.flushes.add(flush)
+		const done = () => this.flushes.delete(flush)
+		flush.then(done, done)
+	}
+
+	/**
+	 * Resolves with the tail sampling decision for the trace, or `undefined` if the decision is not made in time,
+	 * for example because it was evicted from the decisions kept for later flushes.
+	 */
+	private async decision(traceId: string): Promise<boolean | undefined> {
+		if (this.archive === 'all' || this.decisions.has(traceId)) {
+			return this.decisions.get(traceId)
+		}
+		const decided = new Promise<boolean>((resolve) => {
+			this.pendingDecisions.set(traceId, [...(this.pendingDecisions.get(traceId) ?? []), resolve])
+		})
+		const timedOut = scheduler.wait(DECISION_TIMEOUT_MS).then(() => undefined)
+		const sampled = await Promise.race([decided, timedOut])
+		if (sampled === undefined) {
+			this.pendingDecisions.delete(traceId)
+			console.log(`No tail sampling decision for trace ${traceId}, it is not archived`)
+		}
+		return sampled
+	}
+
+	private async flushTrace(traceId: string, waitForDecision: boolean): Promise<void> {
+		const spans = this.traces.get(traceId)
+		this.traces.delete(traceId)
+		if (!spans || spans.length === 0) {
+			return
+		}
+		const sampled = waitForDecision ? await this.decision(traceId) : this.decisions.get(traceId)
+		if (!this.shouldArchive(sampled)) {
+			return
+		}
+
+		const localRootSpan = spans.find((span) => !span.parentSpanContext || span.parentSpanContext.isRemote) ?? spans[0]!
+		const service = String(localRootSpan.resource.attributes['service.name'] ?? 'unknown_service')
+		const flushId = spans[0]!.spanContext().spanId
+		const key = `${this.prefix}${datePath(localRootSpan)}/${service}/${traceId}-${flushId}.json.gz`
+		const body = await compressBody(serializeSpans(spans, 'http/json'), 'gzip')
+		try {
+			await this.bucket.put(key, body, {
+				httpMetadata: { contentType: 'application/json', contentEncoding: 'gzip' },
+				customMetadata: sampled === undefined ? {} : { sampled: String(sampled) },
+			})
+		} catch (e) {
+			console.log(`archiving trace ${traceId} failed! ${e}`)
+		}
+	}
+
+	private shouldArchive(sampled: boolean | undefined): boolean {
+		switch (this.archive) {
+			case 'all':
+				return true
+			case 'sampled':
+				return sampled === true
+			case 'dropped':
+				return sampled === false
+		}
+	}
+
+	async shutdown(): Promise<void> {
+		await this.forceFlush()
+	}
+}
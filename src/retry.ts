@@ -0,0 +1,112 @@
+export interface RetryConfig {
+	/**
+	 * Maximum number of attempts, including the first request.
+	 * @default 5
+	 */
+	maxAttempts?: number
+	/**
+	 * Delay before the first retry. Doubles (by `backoffMultiplier`) on every subsequent retry.
+	 * @default 100
+	 */
+	initialBackoffMs?: number
+	/**
+	 * Upper bound for a single backoff delay.
+	 * @default 5000
+	 */
+	maxBackoffMs?: number
+	/**
+	 * @default 2
+	 */
+	backoffMultiplier?: number
+	/**
+	 * Total time budget for all attempts. No retry is scheduled if it would end after the budget,
+	 * so keep this well inside the time `waitUntil` is allowed to run.
+	 * @default 10000
+	 */
+	timeoutMs?: number
+}
+
+export type ResolvedRetryConfig = Required<RetryConfig>
+
+// As recommended by the OTLP/HTTP specification
+const RETRYABLE_STATUS_CODES = new Set([429, 502, 503, 504])
+const JITTER = 0.2
+
+export function resolveRetryConfig(config?: RetryConfig | false): ResolvedRetryConfig {
+	// Explicitly `undefined` values, e.g. from unset environment variables, fall back to the defaults as well
+	const supplied = config || {}
+	return {
+		maxAttempts: config === false ? 1 : (supplied.maxAttempts ?? 5),
+		initialBackoffMs: supplied.initialBackoffMs ?? 100,
+		maxBackoffMs: supplied.maxBackoffMs ?? 5000,
+		backoffMultiplier: supplied.backoffMultiplier ?? 2,
+		timeoutMs: supplied.timeoutMs ?? 10000,
+	}
+}
+
+export function isRetryableStatus(status: number): boolean {
+	return RETRYABLE_STATUS_CODES.has(status)
+}
+
+/**
+ * Parse a `Retry-After` header, which can either be a number of seconds or an HTTP date.
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+	if (!value) {
+		return undefined
+	}
+	const seconds = Number(value)
+	if (Number.isFinite(seconds)) {
+		return Math.max(0, seconds * 1000)
+	}
+	const date = Date.parse(value)
+	if (!isNaN(date)) {
+		return Math.max(0, date - now)
+	}
+	return undefined
+}
+
+function withJitter(delay: number): number {
+	return delay * (1 - JITTER + Math.random() * 2 * JITTER)
+}
+
+/**
+ * Perform a fetch, retrying on network errors and retryable status codes with jittered exponential backoff.
+ * A `Retry-After` header on the response takes precedence over the computed backoff.
+ * Resolves with the last response received, or rejects with the last error if no response was received.
+ */
+export async function fetchWithRetry(
+	fetcher: Fetcher['fetch'],
+	url: string,
+	init: RequestInit,
+	config: ResolvedRetryConfig,
+): Promise<Response> {
+	const deadline = Date.now() + config.timeoutMs
+	let backoff = config.initialBackoffMs
+
+	for (let attempt = 1; ; attempt++) {
+		let response: Response | undefined
+		let error: unknown
+		try {
+			response = await fetcher(url, init)
+			if (!isRetryableStatus(response.status)) {
+				return response
+			}
+		} catch (e) {
+			error = e
+		}
+
+		const retryAfter = parseRetryAfter(response?.headers.get('retry-after') ?? null)
+		const delay = retryAfter ?? withJitter(backoff)
+		if (attempt >= config.maxAttempts || Date.now() + delay > deadline) {
+			if (response) {
+				return response
+			}
+			throw error
+		}
+
+		await response?.body?.cancel()
+		await scheduler.wait(delay)
+		backoff = Math.min(backoff * config.backoffMultiplier, config.maxBackoffMs)
+	}
+}
@@ -1,6 +1,34 @@
-import { TraceFlags, SpanStatusCode } from '@opentelemetry/api'
-import { ParentBasedSampler, ReadableSpan, Sampler, TraceIdRatioBasedSampler } from '@opentelemetry/sdk-trace-base'
-import { ParentRatioSamplingConfig } from './types'
+import {
+	Attributes,
+	AttributeValue,
+	Context,
+	createTraceState,
+	Link,
+	SpanKind,
+	SpanStatusCode,
+	trace,
+	TraceFlags,
+	TraceState,
+} from '@opentelemetry/api'
+import { hrTimeToMilliseconds } from '@opentelemetry/core'
+import {
+	ParentBasedSampler,
+	ReadableSpan,
+	Sampler,
+	SamplingDecision,
+	SamplingResult,
+	TraceIdRatioBasedSampler,
+} from '@opentelemetry/sdk-trace-base'
+import {
+	AttributeMatcher,
+	ParentRatioSamplingConfig,
+	RateLimitSamplingConfig,
+	RemoteSamplingConfig,
+	RuleSamplingConfig,
+	SamplingRule,
+} from './types'
+import { unwrap } from './wrap'
+import { waitUntil } from 'cloudflare:workers'
 
 export interface LocalTrace {
 	readonly traceId: string
@@ -26,8 +54,377 @@ export const isRootErrorSpan: TailSampleFn = (traceInfo) => {
 	return localRootSpan.status.code === SpanStatusCode.ERROR
 }
 
-export function createSampler(conf: ParentRatioSamplingConfig): Sampler {
-	const ratioSampler = new TraceIdRatioBasedSampler(conf.ratio)
+export const isAnyErrorSpan: TailSampleFn = (traceInfo) => {
+	return traceInfo.spans.some((span) => span.status.code === SpanStatusCode.ERROR)
+}
+
+/**
+ * Keep traces whose local root span took longer than the threshold.
+ */
+export function isRootSlowerThan(thresholdMs: number): TailSampleFn {
+	return (traceInfo) => hrTimeToMilliseconds(traceInfo.localRootSpan.duration) > thresholdMs
+}
+
+export type SpanPredicate = (span: ReadableSpan) => boolean
+
+/**
+ * Keep traces with at least one span matching the predicate, or all the given attribute matchers.
+ */
+export function hasSpanMatching(predicate: SpanPredicate | Record<string, AttributeMatcher>): TailSampleFn {
+	const matches =
+		typeof predicate === 'function'
+			? predicate
+			: (span: ReadableSpan) => matchesRule({ match: predicate }, span.attributes)
+	return (traceInfo) => traceInfo.spans.some(matches)
+}
+
+export function anyOf(samplers: TailSampleFn[]): TailSampleFn {
+	return (traceInfo) => samplers.some((sampler) => sampler(traceInfo))
+}
+
+export function allOf(samplers: TailSampleFn[]): TailSampleFn {
+	return (traceInfo) => samplers.every((sampler) => sampler(traceInfo))
+}
+
+export function not(sampler: TailSampleFn): TailSampleFn {
+	return (traceInfo) => !sampler(traceInfo)
+}
+
+function matchesAttribute(matcher: AttributeMatcher, value: AttributeValue | undefined): boolean {
+	if (typeof matcher === 'function') {
+		return matcher(value)
+	}
+	if (matcher instanceof RegExp) {
+		return typeof value === 'string' && matcher.test(value)
+	}
+	return value === matcher
+}
+
+export function matchesRule(rule: Pick<SamplingRule, 'match'>, attributes: Attributes): boolean {
+	return Object.entries(rule.match).every(([key, matcher]) => matchesAttribute(matcher, attributes[key]))
+}
+
+/**
+ * Samples with the ratio of the first rule matching the span attributes,
+ * or with the default ratio when no rule matches.
+ */
+export class RuleBasedSampler implements Sampler {
+	private readonly rules: { rule: SamplingRule; sampler: Sampler }[]
+	private readonly defaultSampler: Sampler
+
+	constructor(rules: SamplingRule[], defaultRatio = 1) {
+		this.rules = rules.map((rule) => ({ rule, sampler: new TraceIdRatioBasedSampler(rule.ratio) }))
+		this.defaultSampler = new TraceIdRatioBasedSampler(defaultRatio)
+	}
+
+	shouldSample(
+		context: Context,
+		traceId: string,
+		spanName: string,
+		spanKind: SpanKind,
+		attributes: Attributes,
+		links: Link[],
+	): SamplingResult {
+		const match = this.rules.find(({ rule }) => matchesRule(rule, attributes))
+		const sampler = match ? match.sampler : this.defaultSampler
+		return sampler.shouldSample(context, traceId, spanName, spanKind, attributes, links)
+	}
+
+	toString(): string {
+		return `RuleBasedSampler{rules=${this.rules.length}}`
+	}
+}
+
+// Thresholds and randomness of consistent probability sampling are 56 bit values
+const RANDOMNESS_BITS = 56n
+const MAX_THRESHOLD = 1n << RANDOMNESS_BITS
+const RANDOMNESS_HEX_DIGITS = 14
+// W3C Trace Context level 2 flag, set when the trace id was generated randomly
+const RANDOM_TRACE_ID_FLAG = 2
+
+/**
+ * Rejection threshold for a sampling ratio: spans are sampled when their randomness is at least the threshold.
+ */
+export function ratioToThreshold(ratio: number): bigint {
+	if (!(ratio > 0)) {
+		return MAX_THRESHOLD
+	}
+	if (ratio >= 1) {
+		return 0n
+	}
+	return MAX_THRESHOLD - BigInt(Math.round(ratio * Number(MAX_THRESHOLD)))
+}
+
+/**
+ * Encode a threshold as in the `th` value of the `ot` trace state, with trailing zeros removed.
+ */
+export function encodeThreshold(threshold: bigint): string {
+	return threshold.toString(16).padStart(RANDOMNESS_HEX_DIGITS, '0').replace(/0+$/, '') || '0'
+}
+
+function parseOtTraceState(traceState: TraceState | undefined): Map<string, string> {
+	const value = traceState?.get('ot')
+	const entries = value ? value.split(';') : []
+	return new Map(
+		entries.map((entry) => {
+			const separator = entry.indexOf(':')
+			return [entry.slice(0, separator), entry.slice(separator + 1)]
+		}),
+	)
+}
+
+function formatOtTraceState(values: Map<string, string>): string {
+	return [...values].map(([key, value]) => `${key}:${value}`).join(';')
+}
+
+function generateRandomness(): string {
+	const bytes = crypto.getRandomValues(new Uint8Array(RANDOMNESS_HEX_DIGITS / 2))
+	return [...bytes].map((byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+const RANDOMNESS_PATTERN = /^[0-9a-f]{14}$/
+
+/**
+ * OpenTelemetry consistent probability sampler. The decision compares the trace randomness,
+ * the explicit `rv` of the `ot` trace state or the last 56 bits of the trace id, with the threshold
+ * of the ratio, so every service sampling a trace at the same or a lower ratio makes the same decision.
+ * The threshold of sampled spans is written into the trace state as `ot=th:`, which lets backends
+ * extrapolate span counts. Use it as the root of a `ParentBasedSampler` so that an incoming threshold is kept.
+ */
+export class ConsistentProbabilitySampler implements Sampler {
+	private readonly ratio: number
+	private readonly threshold: bigint
+
+	constructor(ratio: number) {
+		this.ratio = ratio
+		this.threshold = ratioToThreshold(ratio)
+	}
+
+	shouldSample(context: Context, traceId: string): SamplingResult {
+		const parent = trace.getSpanContext(context)
+		const hasParent = !!parent && trace.isSpanContextValid(parent)
+		const ot = parseOtTraceState(parent?.traceState)
+
+		let rv = ot.get('rv')
+		if ((!rv || !RANDOMNESS_PATTERN.test(rv)) && hasParent && (parent.traceFlags & RANDOM_TRACE_ID_FLAG) === 0) {
+			// The upstream trace id is not known to be random, so the randomness has to be explicit
+			rv = generateRandomness()
+			ot.set('rv', rv)
+		}
+		const randomness = BigInt(`0x${rv && RANDOMNESS_PATTERN.test(rv) ? rv : traceId.slice(-RANDOMNESS_HEX_DIGITS)}`)
+
+		const sampled = randomness >= this.threshold
+		if (sampled) {
+			ot.set('th', encodeThreshold(this.threshold))
+		} else {
+			ot.delete('th')
+		}
+		const traceState = parent?.traceState ?? createTraceState()
+		return {
+			decision: sampled ? SamplingDecision.RECORD_AND_SAMPLED : SamplingDecision.NOT_RECORD,
+			traceState: ot.size > 0 ? traceState.set('ot', formatOtTraceState(ot)) : traceState.unset('ot'),
+		}
+	}
+
+	toString(): string {
+		return `ConsistentProbabilitySampler{${this.ratio}}`
+	}
+}
+
+// Bounds the per-route state kept by the rate limiting sampler
+const MAX_TRACKED_ROUTES = 1000
+
+interface RateLimitState {
+	tokens: number
+	lastRefill: number
+	routes: Map<string, { windowStart: number; count: number }>
+}
+
+// The bucket is kept per isolate, since a new sampler is created for every invocation
+const rateLimitStates = new Map<string, RateLimitState>()
+
+/**
+ * Caps the number of sampled traces per isolate with a token bucket.
+ * Routes that have not been sampled `minPerRoutePerMinute` times in the current minute
+ * are still sampled when the bucket is empty, so quiet routes stay visible during spikes.
+ * The floor only applies to spans with `http.route`, span names can contain raw paths.
+ */
+export class RateLimitingSampler implements Sampler {
+	private readonly tracesPerSecond: number
+	private readonly burst: number
+	private readonly minPerRoutePerMinute: number
+	private readonly state: RateLimitState
+
+	constructor(conf: Omit<RateLimitSamplingConfig, 'acceptRemote'>) {
+		this.tracesPerSecond = conf.tracesPerSecond
+		this.burst = conf.burst ?? Math.max(1, conf.tracesPerSecond)
+		this.minPerRoutePerMinute = conf.minPerRoutePerMinute ?? 0
+
+		const key = `${this.tracesPerSecond}:${this.burst}:${this.minPerRoutePerMinute}`
+		const state = rateLimitStates.get(key) ?? { tokens: this.burst, lastRefill: Date.now(), routes: new Map() }
+		rateLimitStates.set(key, state)
+		this.state = state
+	}
+
+	shouldSample(
+		_context: Context,
+		_traceId: string,
+		_spanName: string,
+		_spanKind: SpanKind,
+		attributes: Attributes,
+	): SamplingResult {
+		const now = Date.now()
+		this.refill(now)
+		const route = attributes['http.route']
+		const routeWindow = route === undefined ? undefined : this.routeWindow(String(route), now)
+
+		if (this.state.tokens >= 1) {
+			this.state.tokens -= 1
+		} else if (!routeWindow || routeWindow.count >= this.minPerRoutePerMinute) {
+			return { decision: SamplingDecision.NOT_RECORD }
+		}
+		if (routeWindow) {
+			routeWindow.count += 1
+		}
+		return { decision: SamplingDecision.RECORD_AND_SAMPLED }
+	}
+
+	private refill(now: number): void {
+		const elapsedSeconds = (now - this.state.lastRefill) / 1000
+		this.state.tokens = Math.min(this.burst, this.state.tokens + elapsedSeconds * this.tracesPerSecond)
+		this.state.lastRefill = now
+	}
+
+	private routeWindow(route: string, now: number): { windowStart: number; count: number } {
+		const routes = this.state.routes
+		let window = routes.get(route)
+		if (!window || now - window.windowStart >= 60_000) {
+			window = { windowStart: now, count: 0 }
+			routes.delete(route)
+			if (routes.size >= MAX_TRACKED_ROUTES) {
+				routes.delete(routes.keys().next().value!)
+			}
+			routes.set(route, window)
+		}
+		return window
+	}
+
+	toString(): string {
+		return `RateLimitingSampler{${this.tracesPerSecond}/s}`
+	}
+}
+
+interface RemoteRulesCacheEntry {
+	sampler?: RuleBasedSampler
+	fetchedAt: number
+	refreshStartedAt?: number
+}
+
+// Rules are cached per isolate, since a new sampler is created for every invocation
+const remoteRulesCache = new Map<string, RemoteRulesCacheEntry>()
+
+type JsonAttributeMatcher = string | number | boolean | { regex: string }
+
+interface RemoteSamplingDocument {
+	rules?: { match: Record<string, JsonAttributeMatcher>; ratio: number }[]
+	ratio?: number
+}
+
+function parseRemoteRules(document: RemoteSamplingDocument): RuleBasedSampler {
+	const rules = (document.rules ?? []).map((rule) => ({
+		ratio: rule.ratio,
+		match: Object.fromEntries(
+			Object.entries(rule.match).map(([key, matcher]) => [
+				key,
+				typeof matcher === 'object' ? new RegExp(matcher.regex) : matcher,
+			]),
+		),
+	}))
+	return new RuleBasedSampler(rules, document.ratio)
+}
+
+/**
+ * Rule-based sampler with its rules loaded from a JSON document in KV.
+ * The document is refetched in the background at most every `refreshIntervalSeconds`,
+ * and the fallback rules apply until it has been loaded.
+ */
+export class RemoteRuleSampler implements Sampler {
+	private readonly conf: Omit<RemoteSamplingConfig, 'acceptRemote'>
+	private readonly fallback: RuleBasedSampler
+
+	constructor(conf: Omit<RemoteSamplingConfig, 'acceptRemote'>) {
+		this.conf = conf
+		this.fallback = new RuleBasedSampler(conf.fallback?.rules ?? [], conf.fallback?.ratio)
+	}
+
+	shouldSample(
+		context: Context,
+		traceId: string,
+		spanName: string,
+		spanKind: SpanKind,
+		attributes: Attributes,
+		links: Link[],
+	): SamplingResult {
+		const entry = remoteRulesCache.get(this.conf.key) ?? { fetchedAt: 0 }
+		remoteRulesCache.set(this.conf.key, entry)
+		const refreshInterval = (this.conf.refreshIntervalSeconds ?? 60) * 1000
+		const now = Date.now()
+		// Concurrent invocations do not start another read, unless the pending one never settled
+		const refreshing = entry.refreshStartedAt !== undefined && now - entry.refreshStartedAt < refreshInterval
+		if (now - entry.fetchedAt >= refreshInterval && !refreshing) {
+			entry.refreshStartedAt = now
+			// The runtime cancels promises that are not awaited once the response has been sent
+			waitUntil(this.refresh(entry, now))
+		}
+		const sampler = entry.sampler ?? this.fallback
+		return sampler.shouldSample(context, traceId, spanName, spanKind, attributes, links)
+	}
+
+	private async refresh(entry: RemoteRulesCacheEntry, startedAt: number): Promise<void> {
+		try {
+			// The namespace is instrumented by `instrumentEnv`, sampling must not create spans itself
+			const document = await unwrap(this.conf.kv).get<RemoteSamplingDocument>(this.conf.key, 'json')
+			entry.sampler = document ? parseRemoteRules(document) : undefined
+		} catch (e) {
+			console.log(`Loading sampling rules from ${this.conf.key} failed, keeping the previous rules: ${e}`)
+		} finally {
+			// Failed reads are retried after the refresh interval as well, not on every request
+			entry.fetchedAt = Date.now()
+			if (entry.refreshStartedAt === startedAt) {
+				entry.refreshStartedAt = undefined
+			}
+		}
+	}
+
+	toString(): string {
+		return `RemoteRuleSampler{key=${this.conf.key}}`
+	}
+}
+
+type HeadSamplingConfig =
+	| ParentRatioSamplingConfig
+	| RuleSamplingConfig
+	| RateLimitSamplingConfig
+	| RemoteSamplingConfig
+
+function createRootSampler(conf: HeadSamplingConfig): Sampler {
+	if ('rules' in conf) {
+		return new RuleBasedSampler(conf.rules, conf.ratio)
+	}
+	if ('tracesPerSecond' in conf) {
+		return new RateLimitingSampler(conf)
+	}
+	if ('kv' in conf) {
+		return new RemoteRuleSampler(conf)
+	}
+	if (conf.consistent) {
+		return new ConsistentProbabilitySampler(conf.ratio)
+	}
+	return new TraceIdRatioBasedSampler(conf.ratio)
+}
+
+export function createSampler(conf: HeadSamplingConfig): Sampler {
+	const ratioSampler = createRootSampler(conf)
 	if (typeof conf.acceptRemote === 'boolean' && !conf.acceptRemote) {
 		return new ParentBasedSampler({
 			root: ratioSampler,
@@ -1,30 +1,45 @@
-import { context as api_context, Exception, propagation, SpanStatusCode, trace } from '@opentelemetry/api'
+import {
+	context as api_context,
+	Exception,
+	propagation,
+	SpanStatusCode,
+	TextMapPropagator,
+	trace,
+} from '@opentelemetry/api'
 import { Resource, resourceFromAttributes } from '@opentelemetry/resources'
-import { W3CTraceContextPropagator } from '@opentelemetry/core'
+import { W3CBaggagePropagator, W3CTraceContextPropagator } from '@opentelemetry/core'
 
-import { Initialiser, parseConfig, setConfig, ResolvedConfig } from './config'
+import { Initialiser, getActiveConfig, parseConfig, setConfig, ResolvedConfig } from './config'
 import { WorkerTracerProvider } from './provider'
-import { Trigger, OrPromise, HandlerInstrumentation, ConfigurationOption } from './types'
+import { Trigger, OrPromise, HandlerInstrumentation, ConfigurationOption, RpcTrigger, WorkflowTrigger } from './types'
 import { WorkerLoggerProvider, getLogger } from './logs/provider'
-import { unwrap } from './wrap'
+import { flushMetrics, WorkerMeterProvider } from './metrics/provider'
+import { SpanMetricsProcessor } from './metrics/spanmetrics'
+import { unwrap, wrap } from './wrap'
 import { WorkerTracer } from './tracer'
+import { CompositeTracePropagator } from './propagators'
 
-import { fetchInstrumentation, instrumentGlobalFetch } from './instrumentation/fetch'
+import { fetchInstrumentation, instrumentGlobalFetch, instrumentResponseBody } from './instrumentation/fetch'
 import { instrumentGlobalCache } from './instrumentation/cache'
 import { QueueInstrumentation } from './instrumentation/queue'
 import { DOClass, instrumentDOClass } from './instrumentation/do'
 import { scheduledInstrumentation } from './instrumentation/scheduled'
 import { instrumentEnv } from './instrumentation/env'
 import { versionAttributes } from './instrumentation/version'
-import { PromiseTracker, proxyExecutionContext } from './instrumentation/common'
+import { PromiseTracker, proxyExecutionContext, setHandlerSpan } from './instrumentation/common'
 import { emailInstrumentation } from './instrumentation/email'
+import { rpcInstrumentation } from './instrumentation/entrypoint'
+import { NON_RPC_PROPERTIES } from './instrumentation/service'
+import { workflowInstrumentation } from './instrumentation/workflow'
 import { PACKAGE_VERSION } from './constants'
-import { env } from 'cloudflare:workers'
+import { env, WorkerEntrypoint, WorkflowEntrypoint } from 'cloudflare:workers'
 
 type FetchHandler = ExportedHandlerFetchHandler<unknown, unknown>
 type ScheduledHandler = ExportedHandlerScheduledHandler<unknown>
 type QueueHandler = ExportedHandlerQueueHandler
 type EmailHandler = EmailExportedHandler
+type EntrypointClass = new (ctx: ExecutionContext, env: any) => WorkerEntrypoint
+type WorkflowClass = new (ctx: ExecutionContext, env: any) => WorkflowEntrypoint
 
 type Env = Record<string, any>
 type HandlerFn<T extends Trigger, E extends Env, R extends any> = (
@@ -83,6 +98,13 @@ function init(config: ResolvedConfig, serviceConfig: any, propagator: any): void
 	if (!initialised) {
 		const resource = createResource(serviceConfig, findVersionMeta())
 
+		// Initialize metrics if configured
+		let meterProvider: WorkerMeterProvider | undefined
+		if (config.metrics) {
+			meterProvider = new WorkerMeterProvider(config.metrics.exporter, resource, config.metrics.temporality)
+			meterProvider.register()
+		}
+
 		// Initialize traces if configured
 		if (config.trace) {
 			if (config.trace.instrumentation.instrumentGlobalCache) {
@@ -92,7 +114,11 @@ function init(config: ResolvedConfig, serviceConfig: any, propagator: any): void
 				instrumentGlobalFetch()
 			}
 
-			const traceProvider = new WorkerTracerProvider(config.trace.spanProcessors, resource)
+			const spanProcessors = [...config.trace.spanProcessors]
+			if (meterProvider && config.metrics?.spanMetrics) {
+				spanProcessors.push(new SpanMetricsProcessor(meterProvider.getMeter('@inference-net/otel-cf-workers')))
+			}
+			const traceProvider = new WorkerTracerProvider(spanProcessors, resource)
 			traceProvider.register()
 		}
 
@@ -116,19 +142,23 @@ function init(config: ResolvedConfig, serviceConfig: any, propagator: any): void
 	}
 }
 
+function createDefaultPropagator(): TextMapPropagator {
+	return new CompositeTracePropagator([new W3CTraceContextPropagator(), new W3CBaggagePropagator()])
+}
+
 function createInitialiser(config: ConfigurationOption): Initialiser {
 	if (typeof config === 'function') {
 		return (env, trigger) => {
 			const userConfig = config(env, trigger)
 			const conf = parseConfig(userConfig)
-			const propagator = userConfig.propagator || new W3CTraceContextPropagator()
+			const propagator = userConfig.propagator || createDefaultPropagator()
 			init(conf, userConfig.service, propagator)
 			return conf
 		}
 	} else {
 		return () => {
 			const conf = parseConfig(config)
-			const propagator = config.propagator || new W3CTraceContextPropagator()
+			const propagator = config.propagator || createDefaultPropagator()
 			init(conf, config.service, propagator)
 			return conf
 		}
@@ -150,6 +180,9 @@ export async function exportTelemetry(traceId: string, tracker?: PromiseTracker)
 	if (logger && typeof logger.forceFlush === 'function') {
 		await logger.forceFlush()
 	}
+
+	// Export metrics
+	await flushMetrics()
 }
 
 // Backward compatibility
@@ -180,8 +213,12 @@ function createHandlerFlowFn<T extends Trigger, E extends Env, R extends any>(
 
 		const parentContext = spanContext || api_context.active()
 		const result = tracer.startActiveSpan(name, options, parentContext, async (span) => {
+			let spanDone: Promise<void> | undefined
 			try {
-				const result = await handlerFn(instrumentedTrigger, proxiedEnv, proxiedCtx)
+				const handlerContext = setHandlerSpan(api_context.active(), span)
+				let result = await api_context.with(handlerContext, () =>
+					handlerFn(instrumentedTrigger, proxiedEnv, proxiedCtx),
+				)
 
 				// Check if this is a WebSocket upgrade request - if so, don't touch the response
 				const isWebSocketUpgrade =
@@ -202,6 +239,16 @@ function createHandlerFlowFn<T extends Trigger, E extends Env, R extends any>(
 					if (instrumentation.executionSucces) {
 						instrumentation.executionSucces(span, trigger, result)
 					}
+
+					// Keep the span open while the response body is streamed to the client
+					const traceResponseBody = getActiveConfig()?.handlers.fetch.traceResponseBody ?? false
+					if (traceResponseBody && isRequest(trigger) && result instanceof Response) {
+						const instrumented = instrumentResponseBody(span, result)
+						if (instrumented) {
+							result = instrumented.response as Awaited<R>
+							spanDone = instrumented.done
+						}
+					}
 				}
 				return result
 			} catch (error) {
@@ -212,8 +259,11 @@ function createHandlerFlowFn<T extends Trigger, E extends Env, R extends any>(
 				}
 				throw error
 			} finally {
-				span.end()
-				context.waitUntil(exportTelemetry(span.spanContext().traceId, tracker))
+				const endSpan = () => {
+					span.end()
+					return exportTelemetry(span.spanContext().traceId, tracker)
+				}
+				context.waitUntil(spanDone ? spanDone.then(endSpan) : endSpan())
 			}
 		})
 
@@ -271,4 +321,110 @@ export function instrumentDO(doClass: DOClass, config: ConfigurationOption) {
 	return instrumentDOClass(doClass, initialiser)
 }
 
+// Bindings used through `this.env` are traced like the ones passed to handlers
+function instrumentEntrypointEnv<T extends object>(entrypoint: T, env: Env): T {
+	Object.defineProperty(entrypoint, 'env', {
+		value: instrumentEnv(env),
+		writable: false,
+		enumerable: true,
+		configurable: true,
+	})
+	return entrypoint
+}
+
+/**
+ * Instrument a `WorkerEntrypoint` class. RPC methods are traced as SERVER spans continuing the trace
+ * of an instrumented caller, and the `fetch`, `scheduled`, `queue` and `email` handlers are traced
+ * like the ones of an `ExportedHandler`. Other handlers, such as `tail` and `trace`, are not traced.
+ *
+ * @example
+ * export const AuthService = instrumentEntrypoint(class AuthService extends WorkerEntrypoint<Env> {
+ *   async verify(token: string) { ... }
+ * }, config)
+ */
+export function instrumentEntrypoint<C extends EntrypointClass>(entrypointClass: C, config: ConfigurationOption): C {
+	const initialiser = createInitialiser(config)
+	const service = entrypointClass.name
+	const handlerInstrumentations = new Map<string, HandlerInstrumentation<any, any>>([
+		['fetch', fetchInstrumentation],
+		['scheduled', scheduledInstrumentation],
+		['queue', new QueueInstrumentation()],
+		['email', emailInstrumentation],
+	])
+
+	const classHandler: ProxyHandler<C> = {
+		construct(target, [ctx, env]: ConstructorParameters<EntrypointClass>) {
+			const entrypoint = instrumentEntrypointEnv(new target(ctx, env), env)
+
+			const instrumentMethod = (target: WorkerEntrypoint, prop: string, value: Function): Function => {
+				const instrumentation = handlerInstrumentations.get(prop)
+				if (instrumentation) {
+					const handlerFn = (trigger: Trigger) => value.call(target, trigger)
+					const handlerProxy = createHandlerProxy(target, handlerFn, initialiser, instrumentation)
+					return (trigger: Trigger) => handlerProxy(trigger, env, ctx)
+				}
+				const handlerFn = (trigger: RpcTrigger) => value.apply(target, trigger.args)
+				const handlerProxy = createHandlerProxy(target, handlerFn, initialiser, rpcInstrumentation)
+				return (...args: unknown[]) => handlerProxy({ service, method: prop, args }, env, ctx)
+			}
+
+			// The instrumented methods are created once per property and instance
+			const methods = new Map<string, { value: Function; instrumented: Function }>()
+			const entrypointHandler: ProxyHandler<WorkerEntrypoint> = {
+				get(target, prop) {
+					const value = Reflect.get(target, prop)
+					if (typeof value !== 'function' || typeof prop !== 'string' || prop in Object.prototype) {
+						return value
+					}
+					if (NON_RPC_PROPERTIES.has(prop) && !handlerInstrumentations.has(prop)) {
+						return value
+					}
+					let method = methods.get(prop)
+					if (!method || method.value !== value) {
+						method = { value, instrumented: instrumentMethod(target, prop, value) }
+						methods.set(prop, method)
+					}
+					return method.instrumented
+				},
+			}
+			return wrap(entrypoint, entrypointHandler)
+		},
+	}
+	return wrap(entrypointClass, classHandler)
+}
+
+/**
+ * Instrument a `WorkflowEntrypoint` class. Every invocation of `run` is traced as a root span, with
+ * child spans for `step.do`, `step.sleep`, `step.sleepUntil` and `step.waitForEvent`.
+ *
+ * @example
+ * export const OrderWorkflow = instrumentWorkflow(class OrderWorkflow extends WorkflowEntrypoint<Env> {
+ *   async run(event: WorkflowEvent<Order>, step: WorkflowStep) { ... }
+ * }, config)
+ */
+export function instrumentWorkflow<C extends WorkflowClass>(workflowClass: C, config: ConfigurationOption): C {
+	const initialiser = createInitialiser(config)
+	const workflow = workflowClass.name
+
+	const classHandler: ProxyHandler<C> = {
+		construct(target, [ctx, env]: ConstructorParameters<WorkflowClass>) {
+			const instance = instrumentEntrypointEnv(new target(ctx, env), env)
+			const workflowHandler: ProxyHandler<WorkflowEntrypoint> = {
+				get(target, prop) {
+					const value = Reflect.get(target, prop)
+					if (prop !== 'run' || typeof value !== 'function') {
+						return value
+					}
+					const handlerFn = (trigger: WorkflowTrigger) => value.call(target, trigger.event, trigger.step)
+					const handlerProxy = createHandlerProxy(target, handlerFn, initialiser, workflowInstrumentation)
+					return (event: WorkflowTrigger['event'], step: WorkflowTrigger['step']) =>
+						handlerProxy({ workflow, event, step }, env, ctx)
+				},
+			}
+			return wrap(instance, workflowHandler)
+		},
+	}
+	return wrap(workflowClass, classHandler)
+}
+
 export const __unwrappedFetch = unwrap(fetch)
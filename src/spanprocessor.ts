@@ -3,7 +3,7 @@ import { ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-base'
 import { ExportResultCode } from '@opentelemetry/core'
 import { getActiveConfig } from './config'
 import { TraceFlushableSpanProcessor } from './types'
-import { TailSampleFn } from './sampling'
+import { LocalTrace, TailSampleFn } from './sampling'
 
 function getSampler(): TailSampleFn {
 	const conf = getActiveConfig()
@@ -13,6 +13,15 @@ function getSampler(): TailSampleFn {
 	return conf ? conf.sampling.tailSampler : () => true
 }
 
+export type TraceDecisionCallback = (traceInfo: LocalTrace, sampled: boolean) => void
+
+export interface BatchTraceSpanProcessorOptions {
+	/**
+	 * Called once per trace with the outcome of the tail sampler, before the trace is exported.
+	 */
+	onTraceDecision?: TraceDecisionCallback
+}
+
 class TraceState {
 	private unexportedSpans: ReadableSpan[] = []
 	private inprogressSpans = new Set<string>()
@@ -20,9 +29,11 @@ class TraceState {
 	private exportPromises: Promise<void>[] = []
 	private localRootSpan?: ReadableSpan
 	private traceDecision?: boolean
+	private onTraceDecision?: TraceDecisionCallback
 
-	constructor(exporter: SpanExporter) {
+	constructor(exporter: SpanExporter, onTraceDecision?: TraceDecisionCallback) {
 		this.exporter = exporter
+		this.onTraceDecision = onTraceDecision
 	}
 
 	addSpan(span: Span): void {
@@ -42,11 +53,13 @@ class TraceState {
 	sample() {
 		if (this.traceDecision === undefined && this.unexportedSpans.length > 0) {
 			const sampler = getSampler()
-			this.traceDecision = sampler({
+			const traceInfo: LocalTrace = {
 				traceId: this.localRootSpan!.spanContext().traceId,
 				localRootSpan: this.localRootSpan!,
 				spans: this.unexportedSpans,
-			})
+			}
+			this.traceDecision = sampler(traceInfo)
+			this.onTraceDecision?.(traceInfo, this.traceDecision)
 		}
 		this.unexportedSpans = this.traceDecision ? this.unexportedSpans : []
 	}
@@ -90,15 +103,36 @@ class TraceState {
 type traceId = string
 export class BatchTraceSpanProcessor implements TraceFlushableSpanProcessor {
 	private traces: Record<traceId, TraceState> = {}
+	private decisionListeners: TraceDecisionCallback[] = []
+
+	constructor(
+		private exporter: SpanExporter,
+		options: BatchTraceSpanProcessorOptions = {},
+	) {
+		if (options.onTraceDecision) {
+			this.decisionListeners.push(options.onTraceDecision)
+		}
+	}
 
-	constructor(private exporter: SpanExporter) {}
+	/**
+	 * Register another callback for the outcome of the tail sampler, like the `onTraceDecision` option.
+	 */
+	addTraceDecisionListener(listener: TraceDecisionCallback): void {
+		this.decisionListeners.push(listener)
+	}
 
 	getTraceState(traceId: string): TraceState {
-		const traceState = this.traces[traceId] || new TraceState(this.exporter)
+		const traceState = this.traces[traceId] || new TraceState(this.exporter, this.notifyTraceDecision)
 		this.traces[traceId] = traceState
 		return traceState
 	}
 
+	private notifyTraceDecision = (traceInfo: LocalTrace, sampled: boolean): void => {
+		for (const listener of this.decisionListeners) {
+			listener(traceInfo, sampled)
+		}
+	}
+
 	onStart(span: Span, _parentContext: Context): void {
 		const traceId = span.spanContext().traceId
 		this.getTraceState(traceId).addSpan(span)
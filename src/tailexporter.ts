@@ -0,0 +1,324 @@
+import {
+	Attributes,
+	defaultTextMapGetter,
+	ROOT_CONTEXT,
+	SpanContext,
+	SpanKind,
+	SpanStatusCode,
+	trace,
+	TraceFlags,
+} from '@opentelemetry/api'
+import { ExportResultCode, W3CTraceContextPropagator } from '@opentelemetry/core'
+import { Resource, resourceFromAttributes } from '@opentelemetry/resources'
+import { RandomIdGenerator, ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-base'
+import { isSpanExporter } from './config'
+import { OTLPExporter } from './exporter'
+import { SpanImpl } from './span'
+import { LogRecordImpl } from './logs/logrecord'
+import { LogTransport, ReadableLogRecord } from './logs/types'
+import { ExporterConfig } from './types'
+import {
+	ATTR_CLOUDFLARE_CPU_TIME_MS,
+	ATTR_CLOUDFLARE_EMAIL_FROM,
+	ATTR_CLOUDFLARE_EMAIL_SIZE,
+	ATTR_CLOUDFLARE_EMAIL_TO,
+	ATTR_CLOUDFLARE_ENTRYPOINT,
+	ATTR_CLOUDFLARE_EXECUTION_MODEL,
+	ATTR_CLOUDFLARE_HANDLER_TYPE,
+	ATTR_CLOUDFLARE_OUTCOME,
+	ATTR_CLOUDFLARE_QUEUE_BATCH_SIZE,
+	ATTR_CLOUDFLARE_QUEUE_NAME,
+	ATTR_CLOUDFLARE_RAY_ID,
+	ATTR_CLOUDFLARE_SCHEDULED_TIME,
+	ATTR_CLOUDFLARE_SCRIPT_NAME,
+	ATTR_CLOUDFLARE_SCRIPT_TAGS,
+	ATTR_CLOUDFLARE_SCRIPT_VERSION_ID,
+	ATTR_CLOUDFLARE_TAIL_TRUNCATED,
+	ATTR_CLOUDFLARE_WALL_TIME_MS,
+	ATTR_RPC_METHOD,
+	ATTR_RPC_SYSTEM,
+	SEVERITY_NUMBERS,
+	SeverityNumber,
+} from './constants'
+
+export interface TailExporterConfig {
+	/**
+	 * Exporter receiving a span for every invocation of the tailed workers.
+	 */
+	exporter: ExporterConfig
+	/**
+	 * Transports receiving the `console` logs of the tailed workers. Logs are dropped when none are configured.
+	 */
+	transports?: LogTransport[]
+}
+
+type TailHandler<Env> = (events: TraceItem[], env: Env, ctx: ExecutionContext) => Promise<void>
+
+interface EventSpanInfo {
+	name: string
+	kind: SpanKind
+	attributes: Attributes
+	parent?: SpanContext
+}
+
+const idGenerator = new RandomIdGenerator()
+const traceContextPropagator = new W3CTraceContextPropagator()
+
+const SEVERITIES: Record<string, SeverityNumber> = {
+	debug: SEVERITY_NUMBERS.DEBUG,
+	log: SEVERITY_NUMBERS.INFO,
+	info: SEVERITY_NUMBERS.INFO,
+	warn: SEVERITY_NUMBERS.WARN,
+	error: SEVERITY_NUMBERS.ERROR,
+}
+
+function fetchSpanInfo(event: TraceItemFetchEventInfo): EventSpanInfo {
+	const { request, response } = event
+	const method = request.method.toUpperCase()
+	// Tail events only carry the headers, so a trace context sent by the caller has to be parsed by hand
+	const parent = trace.getSpanContext(
+		traceContextPropagator.extract(ROOT_CONTEXT, request.headers, defaultTextMapGetter),
+	)
+	return {
+		name: `${method} ${new URL(request.url).pathname}`,
+		kind: SpanKind.SERVER,
+		attributes: {
+			'faas.trigger': 'http',
+			[ATTR_CLOUDFLARE_HANDLER_TYPE]: 'fetch',
+			[ATTR_CLOUDFLARE_RAY_ID]: request.headers['cf-ray'],
+			'http.request.method': method,
+			'url.full': request.url,
+			'http.response.status_code': response?.status,
+			'user_agent.original': request.headers['user-agent'],
+		},
+		parent,
+	}
+}
+
+function eventSpanInfo(item: TraceItem): EventSpanInfo {
+	const event = item.event
+	if (!event) {
+		return { name: 'invocation', kind: SpanKind.SERVER, attributes: {} }
+	} else if ('request' in event) {
+		return fetchSpanInfo(event)
+	} else if ('rpcMethod' in event) {
+		return {
+			name: `${item.entrypoint ?? item.scriptName}.${event.rpcMethod}`,
+			kind: SpanKind.SERVER,
+			attributes: {
+				'faas.trigger': 'rpc',
+				[ATTR_CLOUDFLARE_HANDLER_TYPE]: 'rpc',
+				[ATTR_RPC_SYSTEM]: 'cloudflare_rpc',
+				[ATTR_RPC_METHOD]: event.rpcMethod,
+			},
+		}
+	} else if ('cron' in event) {
+		return {
+			name: `scheduledHandler ${event.cron}`,
+			kind: SpanKind.INTERNAL,
+			attributes: {
+				'faas.trigger': 'timer',
+				'faas.cron': event.cron,
+				[ATTR_CLOUDFLARE_HANDLER_TYPE]: 'scheduled',
+				[ATTR_CLOUDFLARE_SCHEDULED_TIME]: new Date(event.scheduledTime).toISOString(),
+			},
+		}
+	} else if ('scheduledTime' in event) {
+		return {
+			name: 'Durable Object Alarm',
+			kind: SpanKind.INTERNAL,
+			attributes: {
+				'faas.trigger': 'timer',
+				[ATTR_CLOUDFLARE_HANDLER_TYPE]: 'alarm',
+				[ATTR_CLOUDFLARE_SCHEDULED_TIME]: new Date(event.scheduledTime).toISOString(),
+			},
+		}
+	} else if ('queue' in event) {
+		return {
+			name: `queueHandler ${event.queue}`,
+			kind: SpanKind.CONSUMER,
+			attributes: {
+				'faas.trigger': 'pubsub',
+				[ATTR_CLOUDFLARE_HANDLER_TYPE]: 'queue',
+				[ATTR_CLOUDFLARE_QUEUE_NAME]: event.queue,
+				[ATTR_CLOUDFLARE_QUEUE_BATCH_SIZE]: event.batchSize,
+			},
+		}
+	} else if ('mailFrom' in event) {
+		return {
+			name: `emailHandler ${event.rcptTo}`,
+			kind: SpanKind.CONSUMER,
+			attributes: {
+				'faas.trigger': 'other',
+				[ATTR_CLOUDFLARE_HANDLER_TYPE]: 'email',
+				[ATTR_CLOUDFLARE_EMAIL_FROM]: event.mailFrom,
+				[ATTR_CLOUDFLARE_EMAIL_TO]: event.rcptTo,
+				[ATTR_CLOUDFLARE_EMAIL_SIZE]: event.rawSize,
+			},
+		}
+	} else if ('consumedEvents' in event) {
+		return {
+			name: 'tailHandler',
+			kind: SpanKind.CONSUMER,
+			attributes: { 'faas.trigger': 'other', [ATTR_CLOUDFLARE_HANDLER_TYPE]: 'tail' },
+		}
+	} else if ('getWebSocketEvent' in event) {
+		const type = event.getWebSocketEvent.webSocketEventType
+		return {
+			name: `webSocketHandler ${type}`,
+			kind: SpanKind.SERVER,
+			attributes: { 'faas.trigger': 'other', [ATTR_CLOUDFLARE_HANDLER_TYPE]: 'websocket' },
+		}
+	}
+	return { name: 'invocation', kind: SpanKind.SERVER, attributes: {} }
+}
+
+function isFailed(item: TraceItem, span: ReadableSpan): boolean {
+	const status = span.attributes['http.response.status_code']
+	return item.outcome !== 'ok' || item.exceptions.length > 0 || (typeof status === 'number' && status >= 400)
+}
+
+/**
+ * Convert a tail event into a span of the tailed worker, timed by its wall time.
+ */
+export function toSpan(item: TraceItem, resource: Resource): SpanImpl {
+	const { name, kind, attributes, parent } = eventSpanInfo(item)
+	const startTime = item.eventTimestamp ?? Date.now()
+	const span = new SpanImpl({
+		name,
+		spanKind: kind,
+		attributes: {
+			...attributes,
+			[ATTR_CLOUDFLARE_SCRIPT_NAME]: item.scriptName ?? undefined,
+			[ATTR_CLOUDFLARE_SCRIPT_TAGS]: item.scriptTags,
+			[ATTR_CLOUDFLARE_SCRIPT_VERSION_ID]: item.scriptVersion?.id,
+			[ATTR_CLOUDFLARE_ENTRYPOINT]: item.entrypoint,
+			[ATTR_CLOUDFLARE_EXECUTION_MODEL]: item.executionModel,
+			[ATTR_CLOUDFLARE_OUTCOME]: item.outcome,
+			[ATTR_CLOUDFLARE_CPU_TIME_MS]: item.cpuTime,
+			[ATTR_CLOUDFLARE_WALL_TIME_MS]: item.wallTime,
+			[ATTR_CLOUDFLARE_TAIL_TRUNCATED]: item.truncated,
+			'do.id': item.durableObjectId,
+		},
+		resource,
+		spanContext: {
+			traceId: parent?.traceId ?? idGenerator.generateTraceId(),
+			spanId: idGenerator.generateSpanId(),
+			traceFlags: TraceFlags.SAMPLED,
+		},
+		parentSpanContext: parent,
+		parentSpanId: parent?.spanId,
+		startTime,
+		onEnd: () => {},
+	})
+	for (const exception of item.exceptions) {
+		span.recordException(exception, exception.timestamp)
+	}
+	if (isFailed(item, span)) {
+		span.setStatus({ code: SpanStatusCode.ERROR, message: item.outcome === 'ok' ? undefined : item.outcome })
+	}
+	span.end(startTime + item.wallTime)
+	return span
+}
+
+function formatMessage(message: unknown): string {
+	const args = Array.isArray(message) ? message : [message]
+	return args.map((arg) => (typeof arg === 'string' ? arg : JSON.stringify(arg))).join(' ')
+}
+
+/**
+ * Convert the `console` logs of a tail event into log records correlated with its span.
+ */
+export function toLogRecords(item: TraceItem, span: ReadableSpan): ReadableLogRecord[] {
+	const { traceId, spanId, traceFlags } = span.spanContext()
+	return item.logs.map(
+		(log) =>
+			new LogRecordImpl({
+				timestamp: log.timestamp,
+				severityNumber: SEVERITIES[log.level] ?? SEVERITY_NUMBERS.INFO,
+				severityText: log.level.toUpperCase(),
+				body: formatMessage(log.message),
+				attributes: {
+					'log.source': 'console',
+					'log.method': log.level,
+				},
+				traceId,
+				spanId,
+				traceFlags,
+				resource: span.resource,
+				instrumentationScope: span.instrumentationScope,
+			}),
+	)
+}
+
+function createResource(item: TraceItem): Resource {
+	return resourceFromAttributes({
+		'service.name': item.scriptName ?? 'unknown_service',
+		'cloud.provider': 'cloudflare',
+		'cloud.platform': 'cloudflare.workers',
+		'cf.worker.version.id': item.scriptVersion?.id,
+		'cf.worker.version.tag': item.scriptVersion?.tag,
+		'cf.worker.dispatch_namespace': item.dispatchNamespace,
+	})
+}
+
+function exportSpans(exporter: SpanExporter, spans: ReadableSpan[]): Promise<void> {
+	return new Promise((resolve, reject) => {
+		exporter.export(spans, (result) => {
+			result.code === ExportResultCode.SUCCESS ? resolve() : reject(result.error)
+		})
+	})
+}
+
+function exportLogs(transport: LogTransport, logs: ReadableLogRecord[]): Promise<void> {
+	return new Promise((resolve, reject) => {
+		transport.export(logs, (result) => {
+			result.code === ExportResultCode.SUCCESS ? resolve() : reject(result.error)
+		})
+	})
+}
+
+/**
+ * Create a tail handler that converts the events of the tailed workers into spans and log records,
+ * so that workers which cannot be instrumented are still observed, including their real CPU time.
+ *
+ * @example
+ * export default {
+ *   tail: createTailExporter((env: Env) => ({
+ *     exporter: { url: 'https://collector.example/v1/traces', headers: { 'x-api-key': env.API_KEY } },
+ *     transports: [new OTLPTransport({ url: 'https://collector.example/v1/logs', headers: { 'x-api-key': env.API_KEY } })],
+ *   })),
+ * }
+ */
+export function createTailExporter<Env = any>(
+	config: TailExporterConfig | ((env: Env) => TailExporterConfig),
+): TailHandler<Env> {
+	return async (events, env) => {
+		const { exporter: exporterConfig, transports = [] } = typeof config === 'function' ? config(env) : config
+		const exporter = isSpanExporter(exporterConfig) ? exporterConfig : new OTLPExporter(exporterConfig)
+
+		// Spans of the same script share a resource, so that they are exported together
+		const resources = new Map<string, Resource>()
+		const spans: ReadableSpan[] = []
+		const logs: ReadableLogRecord[] = []
+		for (const item of events) {
+			const key = `${item.scriptName}:${item.scriptVersion?.id}:${item.dispatchNamespace}`
+			const resource = resources.get(key) ?? createResource(item)
+			resources.set(key, resource)
+			const span = toSpan(item, resource)
+			spans.push(span)
+			logs.push(...toLogRecords(item, span))
+		}
+
+		const exports = [exportSpans(exporter, spans)]
+		if (logs.length > 0) {
+			exports.push(...transports.map((transport) => exportLogs(transport, logs)))
+		}
+		const results = await Promise.allSettled(exports)
+		for (const result of results) {
+			if (result.status === 'rejected') {
+				console.log(`exporting tail events failed! ${result.reason}`)
+			}
+		}
+	}
+}
@@ -0,0 +1,182 @@
+import { DurableObject } from 'cloudflare:workers'
+import { ExportResult, ExportResultCode } from '@opentelemetry/core'
+import { ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-base'
+import { serializeSpans } from './exporter'
+import { mergeExportRequests, OTLPEndpointConfig, OTLPSignal, postOTLP } from './queueexporter'
+import { compressBody } from './compression'
+import { resolveRetryConfig, ResolvedRetryConfig, RetryConfig } from './retry'
+import { unwrap } from './wrap'
+import { OTLPCompression, OTLPProtocol } from './constants'
+
+export interface TelemetryBufferConfig {
+	traces?: OTLPEndpointConfig
+	logs?: OTLPEndpointConfig
+	/**
+	 * Flush as soon as this many bytes of serialized telemetry are buffered.
+	 * @default 1048576
+	 */
+	maxBufferBytes?: number
+	/**
+	 * Maximum time telemetry is buffered before it is flushed by an alarm.
+	 * @default 10000
+	 */
+	flushIntervalMs?: number
+	/**
+	 * Compression applied to the merged export requests.
+	 * @default 'none'
+	 */
+	compression?: OTLPCompression
+	/**
+	 * Retry behaviour for failed flushes. Set to `false` to disable retries.
+	 */
+	retry?: RetryConfig | false
+}
+
+interface BufferedBatch {
+	signal: OTLPSignal
+	protocol: OTLPProtocol
+	bodies: (string | Uint8Array)[]
+}
+
+/**
+ * Durable Object that collects serialized telemetry from many invocations and forwards it to
+ * the collector in merged batches, either once `maxBufferBytes` is reached or after `flushIntervalMs`.
+ *
+ * Telemetry is only buffered in memory, so anything not flushed yet is lost if the object is evicted.
+ * Use `createTelemetryBuffer` to create a class that can be exported from a worker.
+ */
+export class TelemetryBuffer<Env = unknown> extends DurableObject<Env> {
+	private readonly config: TelemetryBufferConfig
+	private readonly retry: ResolvedRetryConfig
+	private batches = new Map<string, BufferedBatch>()
+	private bufferedBytes = 0
+	private alarmScheduled = false
+
+	constructor(ctx: DurableObjectState, env: Env, config: TelemetryBufferConfig) {
+		super(ctx, env)
+		this.config = config
+		this.retry = resolveRetryConfig(config.retry)
+	}
+
+	async add(signal: OTLPSignal, protocol: OTLPProtocol, body: string | Uint8Array): Promise<void> {
+		const key = `${signal}:${protocol}`
+		const batch = this.batches.get(key) ?? { signal, protocol, bodies: [] }
+		batch.bodies.push(body)
+		this.batches.set(key, batch)
+		this.bufferedBytes += typeof body === 'string' ? body.length : body.byteLength
+
+		if (this.bufferedBytes >= (this.config.maxBufferBytes ?? 1048576)) {
+			this.ctx.waitUntil(this.flush())
+		} else if (!this.alarmScheduled) {
+			await this.ctx.storage.setAlarm(Date.now() + (this.config.flushIntervalMs ?? 10000))
+			this.alarmScheduled = true
+		}
+	}
+
+	override async alarm(): Promise<void> {
+		this.alarmScheduled = false
+		await this.flush()
+	}
+
+	async flush(): Promise<void> {
+		const batches = [...this.batches.values()]
+		this.batches = new Map()
+		this.bufferedBytes = 0
+		await Promise.allSettled(batches.map((batch) => this.export(batch)))
+	}
+
+	private async export(batch: BufferedBatch): Promise<void> {
+		const endpoint = this.config[batch.signal]
+		if (!endpoint) {
+			console.log(`No OTLP endpoint configured for ${batch.signal}, dropping buffered telemetry`)
+			return
+		}
+		const compression = this.config.compression ?? 'none'
+		const body = await compressBody(mergeExportRequests(batch.signal, batch.protocol, batch.bodies), compression)
+		try {
+			const response = await postOTLP(
+				endpoint,
+				{ signal: batch.signal, protocol: batch.protocol, compression, body },
+				this.retry,
+			)
+			if (!response.ok) {
+				console.log(`exporting buffered ${batch.signal} failed! Exporter received a statusCode: ${response.status}`)
+			}
+		} catch (e) {
+			console.log(`exporting buffered ${batch.signal} failed! ${e}`)
+		}
+	}
+}
+
+/**
+ * Create a `TelemetryBuffer` Durable Object class forwarding to the given endpoints.
+ *
+ * @example
+ * export const TelemetryBufferDO = createTelemetryBuffer((env: Env) => ({
+ *   traces: { url: 'https://collector.example/v1/traces', headers: { 'x-api-key': env.API_KEY } },
+ * }))
+ */
+export function createTelemetryBuffer<Env = any>(
+	config: TelemetryBufferConfig | ((env: Env) => TelemetryBufferConfig),
+): new (ctx: DurableObjectState, env: Env) => TelemetryBuffer<Env> {
+	return class extends TelemetryBuffer<Env> {
+		constructor(ctx: DurableObjectState, env: Env) {
+			super(ctx, env, typeof config === 'function' ? config(env) : config)
+		}
+	}
+}
+
+export interface DurableObjectExporterConfig {
+	/**
+	 * Durable Object namespace binding of a class created with `createTelemetryBuffer`.
+	 */
+	namespace: DurableObjectNamespace<TelemetryBuffer<any>>
+	/**
+	 * Name of the buffer object.
+	 * @default 'telemetry-buffer'
+	 */
+	name?: string
+	/**
+	 * Number of buffer objects to spread the exports over, for workers that outgrow a single object.
+	 * @default 1
+	 */
+	shards?: number
+	/**
+	 * Encoding of the buffered export requests.
+	 * @default 'http/json'
+	 */
+	protocol?: OTLPProtocol
+}
+
+/**
+ * Span exporter that sends spans to a `TelemetryBuffer` Durable Object over RPC, so that spans
+ * from many invocations are exported to the collector together.
+ */
+export class DurableObjectSpanExporter implements SpanExporter {
+	private namespace: DurableObjectNamespace<TelemetryBuffer<any>>
+	private name: string
+	private shards: number
+	private protocol: OTLPProtocol
+
+	constructor(config: DurableObjectExporterConfig) {
+		this.namespace = unwrap(config.namespace)
+		this.name = config.name ?? 'telemetry-buffer'
+		this.shards = Math.max(1, config.shards ?? 1)
+		this.protocol = config.protocol ?? 'http/json'
+	}
+
+	export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+		const name = this.shards > 1 ? `${this.name}-${Math.floor(Math.random() * this.shards)}` : this.name
+		const stub = this.namespace.get(this.namespace.idFromName(name))
+		stub
+			.add('traces', this.protocol, serializeSpans(spans, this.protocol))
+			.then(() => {
+				resultCallback({ code: ExportResultCode.SUCCESS })
+			})
+			.catch((error: Error) => {
+				resultCallback({ code: ExportResultCode.FAILED, error })
+			})
+	}
+
+	async shutdown(): Promise<void> {}
+}
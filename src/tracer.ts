@@ -16,6 +16,7 @@ import { SpanProcessor, RandomIdGenerator, ReadableSpan, SamplingDecision } from
 
 import { SpanImpl } from './span'
 import { getActiveConfig } from './config'
+import { getBaggageAttributes } from './baggage'
 import { TraceFlushableSpanProcessor } from './types'
 
 enum NewTraceFlags {
@@ -64,12 +65,15 @@ export class WorkerTracer implements Tracer {
 		const { traceId, randomTraceFlag } = getTraceInfo(parentSpanContext)
 
 		const spanKind = options.kind || SpanKind.INTERNAL
-		const sanitisedAttrs = sanitizeAttributes(options.attributes)
+		const baggageAttrs = getBaggageAttributes(context, config.baggageAttributes)
+		const sanitisedAttrs = sanitizeAttributes(Object.assign({}, baggageAttrs, options.attributes))
 		const sampler = config.sampling.headSampler
-		const samplingDecision = sampler.shouldSample(context, traceId, name, spanKind, sanitisedAttrs, [])
-		const { decision, traceState, attributes: attrs } = samplingDecision
+		const samplingDecision = sampler.shouldSample(context, traceId, name, spanKind, sanitisedAttrs, options.links ?? [])
+		const { decision, attributes: attrs } = samplingDecision
+		// Samplers that leave the trace state alone, like the parent based ones, propagate the parent's
+		const traceState = samplingDecision.traceState ?? parentSpanContext?.traceState
 
-		const attributes = Object.assign({}, options.attributes, attrs, withNextSpanAttributes)
+		const attributes = Object.assign({}, baggageAttrs, options.attributes, attrs, withNextSpanAttributes)
 		withNextSpanAttributes = {}
 
 		const spanId = idGenerator.generateSpanId()
@@ -93,6 +97,7 @@ export class WorkerTracer implements Tracer {
 			parentSpanId,
 			spanKind,
 			startTime: options.startTime,
+			links: options.links,
 		})
 		this.spanProcessors.forEach((sp) => {
 			//Do not get me started on the idosyncracies of the Otel JS libraries.
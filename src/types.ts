@@ -1,9 +1,14 @@
-import { Attributes, Context, SpanOptions, TextMapPropagator, Span } from '@opentelemetry/api'
+import { Attributes, AttributeValue, Context, SpanOptions, TextMapPropagator, Span } from '@opentelemetry/api'
 import { ReadableSpan, Sampler, SpanExporter, SpanProcessor } from '@opentelemetry/sdk-trace-base'
 import { OTLPExporterConfig } from './exporter'
 import { FetchHandlerConfig, FetcherConfig } from './instrumentation/fetch'
+import { QueueHandlerConfig, QueueSenderConfig } from './instrumentation/queue'
+import { RpcConfig } from './instrumentation/service'
 import { TailSampleFn } from './sampling'
 import { LogTransport, LogRecordProcessor, BatchConfig as LogBatchConfig } from './logs/types'
+import type { WorkflowEvent, WorkflowStep } from 'cloudflare:workers'
+import { PushMetricExporter } from '@opentelemetry/sdk-metrics'
+import { OTLPMetricExporterConfig } from './metrics/exporter'
 
 export type OrPromise<T extends any> = T | Promise<T>
 
@@ -32,6 +37,7 @@ export type TraceFlushableSpanProcessor = SpanProcessor & { forceFlush: (traceId
 
 export interface HandlerConfig {
 	fetch?: FetchHandlerConfig
+	queue?: QueueHandlerConfig
 }
 
 export interface ServiceConfig {
@@ -43,9 +49,86 @@ export interface ServiceConfig {
 export interface ParentRatioSamplingConfig {
 	acceptRemote?: boolean
 	ratio: number
+	/**
+	 * Use OpenTelemetry consistent probability sampling, recording the sampling threshold
+	 * as `ot=th:` in `tracestate` so that services sampling at different ratios keep complete traces.
+	 * @default false
+	 */
+	consistent?: boolean
 }
 
-type HeadSamplerConf = Sampler | ParentRatioSamplingConfig
+export type AttributeMatcher = string | number | boolean | RegExp | ((value: AttributeValue | undefined) => boolean)
+
+export interface SamplingRule {
+	/**
+	 * Attributes of the span being started, all of which must match.
+	 * Values are compared for equality, tested against a RegExp or passed to a predicate.
+	 */
+	match: Record<string, AttributeMatcher>
+	ratio: number
+}
+
+export interface RuleSamplingConfig {
+	acceptRemote?: boolean
+	/**
+	 * Evaluated in order against the attributes of the root span, the first match decides the ratio.
+	 */
+	rules: SamplingRule[]
+	/**
+	 * Ratio used when no rule matches.
+	 * @default 1
+	 */
+	ratio?: number
+}
+
+export interface RateLimitSamplingConfig {
+	acceptRemote?: boolean
+	/**
+	 * Maximum number of sampled root traces per second in each isolate.
+	 */
+	tracesPerSecond: number
+	/**
+	 * Number of traces that can be sampled in a burst.
+	 * @default tracesPerSecond
+	 */
+	burst?: number
+	/**
+	 * Traces sampled per route and minute even when the rate limit is exhausted.
+	 * Routes are keyed by `http.route`, spans without it only count against the rate limit.
+	 * @default 0
+	 */
+	minPerRoutePerMinute?: number
+}
+
+export interface RemoteSamplingConfig {
+	acceptRemote?: boolean
+	/**
+	 * KV namespace holding the sampling rules.
+	 */
+	kv: KVNamespace
+	/**
+	 * Key of a JSON document shaped like `RuleSamplingConfig`, e.g.
+	 * `{ "rules": [{ "match": { "url.path": { "regex": "^/health" } }, "ratio": 0 }], "ratio": 0.1 }`.
+	 */
+	key: string
+	/**
+	 * Minimum time between two reads of the rules in an isolate.
+	 * @default 60
+	 */
+	refreshIntervalSeconds?: number
+	/**
+	 * Rules used until the document has been loaded, or when it does not exist.
+	 * @default { rules: [], ratio: 1 }
+	 */
+	fallback?: Omit<RuleSamplingConfig, 'acceptRemote'>
+}
+
+export type HeadSamplerConf =
+	| Sampler
+	| ParentRatioSamplingConfig
+	| RuleSamplingConfig
+	| RateLimitSamplingConfig
+	| RemoteSamplingConfig
 export interface SamplingConfig<HS extends HeadSamplerConf = HeadSamplerConf> {
 	headSampler?: HS
 	tailSampler?: TailSampleFn
@@ -67,6 +150,8 @@ export interface TraceBatchConfig {
 interface TraceConfigBase {
 	handlers?: HandlerConfig
 	fetch?: FetcherConfig
+	queue?: QueueSenderConfig
+	rpc?: RpcConfig
 	postProcessor?: PostProcessorFn
 	sampling?: SamplingConfig
 	instrumentation?: InstrumentationOptions
@@ -90,11 +175,14 @@ export function isSpanProcessorConfig(config: TraceConfig): config is TraceConfi
 export interface ResolvedTraceConfig extends TraceConfigBase {
 	handlers: Required<HandlerConfig>
 	fetch: Required<FetcherConfig>
+	queue: Required<QueueSenderConfig>
+	rpc: Required<RpcConfig>
 	postProcessor: PostProcessorFn
 	sampling: Required<SamplingConfig<Sampler>>
 	spanProcessors: SpanProcessor[]
 	instrumentation: InstrumentationOptions
 	batching: TraceBatchConfig
+	baggageAttributes: string[]
 }
 
 export interface LogsInstrumentationOptions {
@@ -112,13 +200,62 @@ export interface LogsConfig {
 export interface ResolvedLogsConfig {
 	processors: LogRecordProcessor[]
 	instrumentation: LogsInstrumentationOptions
+	baggageAttributes: string[]
+}
+
+export type MetricExporterConfig = OTLPMetricExporterConfig | PushMetricExporter
+
+export type MetricTemporality = 'delta' | 'cumulative'
+
+export interface MetricsConfig {
+	exporter: MetricExporterConfig
+	/**
+	 * Aggregation temporality of synchronous counters and histograms.
+	 * Every isolate keeps its own aggregates, so delta is the right choice unless
+	 * the backend can tell isolates apart.
+	 * @default 'delta'
+	 */
+	temporality?: MetricTemporality
+	/**
+	 * Record request count, error count and duration metrics for every handler and binding span.
+	 * Requires tracing to be configured.
+	 * @default true
+	 */
+	spanMetrics?: boolean
+}
+
+export interface ResolvedMetricsConfig {
+	exporter: PushMetricExporter
+	temporality: MetricTemporality
+	spanMetrics: boolean
 }
 
 export interface WorkerOtelConfig {
 	service: ServiceConfig
 	trace?: TraceConfig
 	logs?: LogsConfig
+	metrics?: MetricsConfig
+	/**
+	 * Defaults to W3C Trace Context and W3C Baggage.
+	 */
 	propagator?: TextMapPropagator
+	/**
+	 * Baggage keys copied as attributes onto every span and log record, e.g. `['tenant.id']`.
+	 * @default []
+	 */
+	baggageAttributes?: string[]
+}
+
+export interface RpcTrigger {
+	service: string
+	method: string
+	args: unknown[]
+}
+
+export interface WorkflowTrigger {
+	workflow: string
+	event: Readonly<WorkflowEvent<unknown>>
+	step: WorkflowStep
 }
 
 export interface DOConstructorTrigger {
@@ -131,6 +268,9 @@ export type Trigger =
 	| MessageBatch
 	| ScheduledController
 	| DOConstructorTrigger
+	| RpcTrigger
+	| WorkflowTrigger
 	| 'do-alarm'
 	| 'do-rpc'
+	| 'do-websocket'
 	| ForwardableEmailMessage
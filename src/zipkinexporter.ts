@@ -0,0 +1,175 @@
+import { AttributeValue, SpanKind, SpanStatusCode } from '@opentelemetry/api'
+import { ExportResult, ExportResultCode, hrTimeToMicroseconds } from '@opentelemetry/core'
+import { OTLPExporterError } from '@opentelemetry/otlp-exporter-base'
+import { ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-base'
+import { unwrap } from './wrap'
+import { fetchWithRetry, resolveRetryConfig, ResolvedRetryConfig, RetryConfig } from './retry'
+
+export interface ZipkinExporterConfig {
+	/**
+	 * Zipkin v2 span endpoint, usually ending in `/api/v2/spans`.
+	 */
+	url: string
+	headers?: Record<string, string>
+	fetcher?: Fetcher['fetch']
+	/**
+	 * Service name used when the span resource has no `service.name`.
+	 */
+	serviceName?: string
+	/**
+	 * Retry behaviour for failed exports (network errors, 429, 502, 503 and 504).
+	 * Set to `false` to disable retries.
+	 */
+	retry?: RetryConfig | false
+}
+
+interface ZipkinEndpoint {
+	serviceName?: string
+	ipv4?: string
+	ipv6?: string
+	port?: number
+}
+
+interface ZipkinAnnotation {
+	timestamp: number
+	value: string
+}
+
+export interface ZipkinSpan {
+	traceId: string
+	parentId?: string
+	id: string
+	kind?: 'CLIENT' | 'SERVER' | 'PRODUCER' | 'CONSUMER'
+	name: string
+	timestamp: number
+	duration: number
+	localEndpoint: ZipkinEndpoint
+	remoteEndpoint?: ZipkinEndpoint
+	annotations?: ZipkinAnnotation[]
+	tags: Record<string, string>
+}
+
+const ZIPKIN_KINDS: Partial<Record<SpanKind, ZipkinSpan['kind']>> = {
+	[SpanKind.CLIENT]: 'CLIENT',
+	[SpanKind.SERVER]: 'SERVER',
+	[SpanKind.PRODUCER]: 'PRODUCER',
+	[SpanKind.CONSUMER]: 'CONSUMER',
+}
+
+const IPV4_PATTERN = /^\d{1,3}(\.\d{1,3}){3}$/
+
+function tagValue(value: AttributeValue): string {
+	return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+function remoteEndpoint(span: ReadableSpan): ZipkinEndpoint | undefined {
+	const address = span.attributes['server.address']
+	const peerService = span.attributes['peer.service']
+	if (typeof address !== 'string' && typeof peerService !== 'string') {
+		return undefined
+	}
+	const endpoint: ZipkinEndpoint = {}
+	if (typeof peerService === 'string') {
+		endpoint.serviceName = peerService
+	}
+	if (typeof address === 'string') {
+		if (IPV4_PATTERN.test(address)) {
+			endpoint.ipv4 = address
+		} else if (address.includes(':')) {
+			endpoint.ipv6 = address
+		} else {
+			endpoint.serviceName = endpoint.serviceName ?? address
+		}
+	}
+	const port = span.attributes['server.port']
+	if (typeof port === 'number') {
+		endpoint.port = port
+	}
+	return endpoint
+}
+
+/**
+ * Convert a span into the Zipkin v2 JSON model, following the OpenTelemetry to Zipkin mapping.
+ */
+export function toZipkinSpan(span: ReadableSpan, defaultServiceName = 'unknown_service'): ZipkinSpan {
+	const tags: Record<string, string> = {}
+	for (const [key, value] of Object.entries(span.attributes)) {
+		if (value !== undefined) {
+			tags[key] = tagValue(value)
+		}
+	}
+	tags['otel.scope.name'] = span.instrumentationScope.name
+	if (span.status.code !== SpanStatusCode.UNSET) {
+		tags['otel.status_code'] = span.status.code === SpanStatusCode.OK ? 'OK' : 'ERROR'
+	}
+	if (span.status.code === SpanStatusCode.ERROR) {
+		tags['error'] = span.status.message ?? ''
+	}
+
+	const serviceName = span.resource.attributes['service.name']
+	const zipkinSpan: ZipkinSpan = {
+		traceId: span.spanContext().traceId,
+		parentId: span.parentSpanContext?.spanId,
+		id: span.spanContext().spanId,
+		kind: ZIPKIN_KINDS[span.kind],
+		name: span.name,
+		timestamp: hrTimeToMicroseconds(span.startTime),
+		duration: hrTimeToMicroseconds(span.duration),
+		localEndpoint: { serviceName: typeof serviceName === 'string' ? serviceName : defaultServiceName },
+		remoteEndpoint: remoteEndpoint(span),
+		tags,
+	}
+	if (span.events.length > 0) {
+		zipkinSpan.annotations = span.events.map((event) => ({
+			timestamp: hrTimeToMicroseconds(event.time),
+			value:
+				event.attributes && Object.keys(event.attributes).length > 0
+					? JSON.stringify({ [event.name]: event.attributes })
+					: event.name,
+		}))
+	}
+	return zipkinSpan
+}
+
+/**
+ * Span exporter sending spans to a Zipkin collector using the v2 JSON API.
+ */
+export class ZipkinExporter implements SpanExporter {
+	private headers: Record<string, string>
+	private url: string
+	private fetcher: Fetcher['fetch']
+	private serviceName?: string
+	private retry: ResolvedRetryConfig
+
+	constructor(config: ZipkinExporterConfig) {
+		this.url = config.url
+		this.headers = Object.assign({ 'content-type': 'application/json' }, config.headers)
+		this.fetcher = config.fetcher ?? fetch
+		this.serviceName = config.serviceName
+		this.retry = resolveRetryConfig(config.retry)
+	}
+
+	export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+		this.send(spans)
+			.then(() => {
+				resultCallback({ code: ExportResultCode.SUCCESS })
+			})
+			.catch((error) => {
+				resultCallback({ code: ExportResultCode.FAILED, error })
+			})
+	}
+
+	private async send(spans: ReadableSpan[]): Promise<void> {
+		const params: RequestInit = {
+			method: 'POST',
+			headers: this.headers,
+			body: JSON.stringify(spans.map((span) => toZipkinSpan(span, this.serviceName))),
+		}
+		const response = await fetchWithRetry(unwrap(this.fetcher), this.url, params, this.retry)
+		if (!response.ok) {
+			throw new OTLPExporterError(`Zipkin exporter received a statusCode: ${response.status}`)
+		}
+	}
+
+	async shutdown(): Promise<void> {}
+}
@@ -1,6 +1,14 @@
-import { beforeEach, vi } from 'vitest'
+import { afterEach, beforeEach, vi } from 'vitest'
+import { context as api_context, trace } from '@opentelemetry/api'
+import {
+	AlwaysOnSampler,
+	BasicTracerProvider,
+	InMemorySpanExporter,
+	SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base'
 import { resetSpans, spanProcessor } from './test-worker'
-import { AlwaysOnSampler } from '@opentelemetry/sdk-trace-base'
+import { getActiveConfig } from '../src/config'
+import { AsyncLocalStorageContextManager } from '../src/context'
 import type { ResolvedTraceConfig } from '../src/types'
 
 // Create a mock config that will always be returned
@@ -8,9 +16,21 @@ const mockConfig: ResolvedTraceConfig = {
 	fetch: {
 		includeTraceContext: true,
 	},
+	queue: {
+		includeTraceContext: true,
+	},
+	rpc: {
+		includeTraceContext: true,
+	},
 	handlers: {
 		fetch: {
 			acceptTraceContext: true,
+			traceResponseBody: false,
+			routes: [],
+		},
+		queue: {
+			acceptTraceContext: true,
+			messageSpans: false,
 		},
 	},
 	postProcessor: (spans) => spans,
@@ -26,6 +46,7 @@ const mockConfig: ResolvedTraceConfig = {
 	batching: {
 		strategy: 'trace',
 	},
+	baggageAttributes: [],
 }
 
 // Mock the config module
@@ -40,3 +61,35 @@ vi.mock('../src/config.js', async () => {
 beforeEach(() => {
 	resetSpans()
 })
+
+/**
+ * Record the spans of all tracers in an in-memory exporter for the tests of the enclosing `describe` block.
+ * With `contextManager`, spans started with `startActiveSpan` or `context.with` become the active span.
+ * Mocks, including changes to the mocked config, are restored after each test.
+ */
+export function useTestTracer({ contextManager = false }: { contextManager?: boolean } = {}) {
+	const exporter = new InMemorySpanExporter()
+	const provider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] })
+
+	beforeEach(() => {
+		vi.spyOn(trace, 'getTracer').mockImplementation((name) => provider.getTracer(name))
+		if (contextManager) {
+			// workerd does not implement `AsyncLocalStorage.disable()`, which `context.disable()` calls
+			const manager = new AsyncLocalStorageContextManager()
+			vi.spyOn(manager, 'disable').mockReturnThis()
+			api_context.setGlobalContextManager(manager)
+		}
+	})
+
+	afterEach(() => {
+		if (contextManager) {
+			// Before restoring the mocks, as the real `disable` throws
+			api_context.disable()
+		}
+		vi.restoreAllMocks()
+		vi.mocked(getActiveConfig).mockReturnValue(mockConfig)
+		exporter.reset()
+	})
+
+	return { exporter, provider }
+}
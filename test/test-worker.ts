@@ -51,6 +51,9 @@ class TestDurableObject extends DurableObject<Env> {
 
 export const InstrumentedTestDO = instrumentDO(TestDurableObject, resolveTestConfig)
 
+// Provides a real `DurableObjectState` to unit tests without initialising the SDK
+export class PlainTestDO extends DurableObject<Env> {}
+
 const worker = {
 	async fetch(request: Request, env: Env, _ctx: ExecutionContext): Promise<Response> {
 		const url = new URL(request.url)
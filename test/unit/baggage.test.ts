@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest'
+import { defaultTextMapGetter, defaultTextMapSetter, propagation, ROOT_CONTEXT, trace } from '@opentelemetry/api'
+import { W3CBaggagePropagator, W3CTraceContextPropagator } from '@opentelemetry/core'
+
+import { getBaggageAttributes } from '../../src/baggage'
+import { CompositeTracePropagator } from '../../src/propagators'
+
+const propagator = new CompositeTracePropagator([new W3CTraceContextPropagator(), new W3CBaggagePropagator()])
+const headers = {
+	traceparent: '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01',
+	baggage: 'tenant.id=acme,user.plan=pro',
+}
+
+describe('baggage', () => {
+	it('extracts baggage next to the span context and injects it again', () => {
+		const context = propagator.extract(ROOT_CONTEXT, headers, defaultTextMapGetter)
+		expect(trace.getSpanContext(context)?.spanId).toBe('b7ad6b7169203331')
+		expect(propagation.getBaggage(context)?.getEntry('tenant.id')?.value).toBe('acme')
+
+		const carrier: Record<string, string> = {}
+		propagator.inject(context, carrier, defaultTextMapSetter)
+		expect(carrier).toEqual(headers)
+	})
+
+	it('promotes the selected baggage keys to attributes', () => {
+		const context = propagator.extract(ROOT_CONTEXT, headers, defaultTextMapGetter)
+		expect(getBaggageAttributes(context, ['tenant.id', 'region'])).toEqual({ 'tenant.id': 'acme' })
+		expect(getBaggageAttributes(ROOT_CONTEXT, ['tenant.id'])).toEqual({})
+	})
+})
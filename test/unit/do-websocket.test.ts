@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest'
+import { context as api_context, ROOT_CONTEXT, SpanKind, SpanStatusCode, trace } from '@opentelemetry/api'
+
+import { useTestTracer } from '../setup'
+import { DOClass, instrumentDOClass, instrumentState } from '../../src/instrumentation/do'
+import { instrumentWebSocketHandlerFn, WebSocketHandlerName } from '../../src/instrumentation/do-websocket'
+
+function fakeState(): DurableObjectState {
+	const tags = new Map<WebSocket, string[]>()
+	return {
+		id: { toString: () => 'a1b2c3', name: 'room-1' },
+		acceptWebSocket: (ws: WebSocket, socketTags?: string[]) => {
+			tags.set(ws, socketTags ?? [])
+		},
+		getTags: (ws: WebSocket) => tags.get(ws) ?? [],
+		waitUntil: () => {},
+	} as unknown as DurableObjectState
+}
+
+function instrumentHandler(handler: WebSocketHandlerName, fn: Function, state: DurableObjectState) {
+	return instrumentWebSocketHandlerFn(fn, handler, () => ({}), {}, state)
+}
+
+describe('Durable Object WebSocket handlers', () => {
+	const { exporter, provider } = useTestTracer({ contextManager: true })
+
+	function acceptInSpan(state: DurableObjectState, ws: WebSocket, tags?: string[]) {
+		const upgradeSpan = provider.getTracer('test').startSpan('upgrade')
+		api_context.with(trace.setSpan(ROOT_CONTEXT, upgradeSpan), () => state.acceptWebSocket(ws, tags))
+		upgradeSpan.end()
+		return upgradeSpan
+	}
+
+	function handlerSpans() {
+		return exporter.getFinishedSpans().filter((span) => span.name !== 'upgrade')
+	}
+
+	it('traces handlers and links them to the upgrade request', async () => {
+		const state = instrumentState(fakeState())
+		const ws = {} as WebSocket
+		const upgradeSpan = acceptInSpan(state, ws, ['user:1'])
+
+		// The tag holding the trace context is hidden from the Durable Object
+		expect(state.getTags(ws)).toEqual(['user:1'])
+
+		const received: unknown[][] = []
+		const webSocketMessage = instrumentHandler(
+			'webSocketMessage',
+			async (...args: unknown[]) => {
+				received.push(args)
+			},
+			state,
+		)
+		await webSocketMessage(ws, 'hello')
+
+		expect(received).toEqual([[ws, 'hello']])
+		const span = handlerSpans()[0]!
+		expect(span.name).toBe('Durable Object webSocketMessage room-1')
+		expect(span.kind).toBe(SpanKind.CONSUMER)
+		expect(span.attributes).toMatchObject({
+			'cloudflare.websocket.message.type': 'text',
+			'cloudflare.websocket.message.size': 5,
+			'cloudflare.websocket.tags': ['user:1'],
+			'do.id': 'a1b2c3',
+		})
+		expect(span.links[0]!.context.spanId).toBe(upgradeSpan.spanContext().spanId)
+		expect(span.spanContext().traceId).not.toBe(upgradeSpan.spanContext().traceId)
+	})
+	it('records the close code and the error of the close and error handlers', async () => {
+		const state = instrumentState(fakeState())
+		const ws = {} as WebSocket
+		acceptInSpan(state, ws)
+
+		await instrumentHandler('webSocketClose', async () => {}, state)(ws, 1001, 'going away', false)
+		const webSocketError = instrumentHandler(
+			'webSocketError',
+			async () => {
+				throw new Error('handler failed')
+			},
+			state,
+		)
+		await expect(webSocketError(ws, new Error('connection reset'))).rejects.toThrow('handler failed')
+
+		const [close, error] = handlerSpans()
+		expect(close!.name).toBe('Durable Object webSocketClose room-1')
+		expect(close!.attributes).toMatchObject({
+			'cloudflare.websocket.close.code': 1001,
+			'cloudflare.websocket.close.reason': 'going away',
+			'cloudflare.websocket.close.was_clean': false,
+		})
+		expect(close!.status.code).toBe(SpanStatusCode.OK)
+		expect(error!.name).toBe('Durable Object webSocketError room-1')
+		expect(error!.status.code).toBe(SpanStatusCode.ERROR)
+		expect(error!.events.map((event) => event.attributes?.['exception.message'])).toEqual([
+			'connection reset',
+			'handler failed',
+		])
+	})
+
+	it('starts a trace without a link for missing or malformed trace context tags', async () => {
+		const state = fakeState()
+		const untagged = {} as WebSocket
+		const malformed = {} as WebSocket
+		state.acceptWebSocket(untagged, ['user:1'])
+		state.acceptWebSocket(malformed, ['user:2', 'otel.traceparent:00-not-a-trace-context-01'])
+
+		const webSocketMessage = instrumentHandler('webSocketMessage', async () => {}, instrumentState(state))
+		await webSocketMessage(untagged, new ArrayBuffer(3))
+		await webSocketMessage(malformed, 'hi')
+
+		const [first, second] = handlerSpans()
+		expect(first!.links).toEqual([])
+		expect(first!.attributes).toMatchObject({
+			'cloudflare.websocket.message.type': 'binary',
+			'cloudflare.websocket.message.size': 3,
+			'cloudflare.websocket.tags': ['user:1'],
+		})
+		expect(second!.links).toEqual([])
+		expect(second!.attributes['cloudflare.websocket.tags']).toEqual(['user:2'])
+	})
+
+	it('does not add the trace context tag when the socket already has the maximum of tags', () => {
+		const original = fakeState()
+		const state = instrumentState(original)
+		const ws = {} as WebSocket
+		const tags = Array.from({ length: 10 }, (_, i) => `tag:${i}`)
+
+		acceptInSpan(state, ws, tags)
+
+		expect(original.getTags(ws)).toEqual(tags)
+	})
+
+	it('routes the handlers of instrumented Durable Objects', async () => {
+		class ChatRoom {
+			messages: unknown[] = []
+			async webSocketMessage(_ws: WebSocket, message: string) {
+				this.messages.push(message)
+			}
+		}
+		const Instrumented = instrumentDOClass(ChatRoom as unknown as DOClass, () => ({}))
+		const room = new Instrumented(fakeState(), {}) as unknown as ChatRoom
+
+		await room.webSocketMessage({} as WebSocket, 'hello')
+
+		expect(room.messages).toEqual(['hello'])
+		const [span] = handlerSpans()
+		expect(span!.name).toBe('Durable Object webSocketMessage room-1')
+		expect(span!.kind).toBe(SpanKind.CONSUMER)
+	})
+})
@@ -0,0 +1,358 @@
+import { describe, it, expect, vi } from 'vitest'
+import { SpanKind, SpanStatusCode, TraceFlags } from '@opentelemetry/api'
+import { ExportResult, ExportResultCode } from '@opentelemetry/core'
+import { resourceFromAttributes } from '@opentelemetry/resources'
+
+import { OTLPExporter } from '../../src/exporter'
+import { OTLPTransport } from '../../src/logs/transport'
+import { ReadableLogRecord } from '../../src/logs/types'
+import { ZipkinExporter } from '../../src/zipkinexporter'
+import { AnalyticsEngineExporter } from '../../src/analyticsengineexporter'
+import { SpanImpl } from '../../src/span'
+
+function createSpan(): SpanImpl {
+	const span = new SpanImpl({
+		attributes: { 'http.request.method': 'GET' },
+		name: 'GET /',
+		onEnd: () => {},
+		resource: resourceFromAttributes({ 'service.name': 'test' }),
+		spanContext: {
+			traceId: '0af7651916cd43dd8448eb211c80319c',
+			spanId: 'b7ad6b7169203331',
+			traceFlags: TraceFlags.SAMPLED,
+		},
+		spanKind: SpanKind.SERVER,
+	})
+	span.end()
+	return span
+}
+
+function recordingFetcher(requests: Request[], status = 200): Fetcher['fetch'] {
+	return async (input, init) => {
+		requests.push(new Request(input as RequestInfo, init as RequestInit))
+		return new Response(null, { status })
+	}
+}
+
+function sequenceFetcher(requests: Request[], responses: Response[]): Fetcher['fetch'] {
+	return async (input, init) => {
+		requests.push(new Request(input as RequestInfo, init as RequestInit))
+		return responses.shift() ?? new Response(null, { status: 200 })
+	}
+}
+
+function exportSpans(exporter: OTLPExporter, spans: SpanImpl[]): Promise<ExportResult> {
+	return new Promise((resolve) => exporter.export(spans, resolve))
+}
+
+function createLogRecord(): ReadableLogRecord {
+	return {
+		timeUnixNano: [1700000000, 0],
+		observedTimeUnixNano: [1700000000, 0],
+		severityNumber: 9,
+		severityText: 'INFO',
+		body: 'order created',
+		attributes: { 'order.id': 42 },
+		traceId: '0af7651916cd43dd8448eb211c80319c',
+		spanId: 'b7ad6b7169203331',
+		traceFlags: TraceFlags.SAMPLED,
+		resource: resourceFromAttributes({ 'service.name': 'test' }),
+		instrumentationScope: { name: 'test' },
+		droppedAttributesCount: 0,
+	}
+}
+
+function exportLogs(transport: OTLPTransport, logs: ReadableLogRecord[]): Promise<ExportResult> {
+	return new Promise((resolve) => transport.export(logs, resolve))
+}
+
+describe('OTLPExporter', () => {
+	it('sends JSON by default', async () => {
+		const requests: Request[] = []
+		const exporter = new OTLPExporter({
+			url: 'https://collector.example/v1/traces',
+			fetcher: recordingFetcher(requests),
+		})
+
+		const result = await exportSpans(exporter, [createSpan()])
+
+		expect(result.code).toBe(ExportResultCode.SUCCESS)
+		expect(requests[0]!.headers.get('content-type')).toBe('application/json')
+		const body = (await requests[0]!.json()) as { resourceSpans: unknown[] }
+		expect(body.resourceSpans).toHaveLength(1)
+	})
+
+	it('sends protobuf when configured', async () => {
+		const requests: Request[] = []
+		const exporter = new OTLPExporter({
+			url: 'https://collector.example/v1/traces',
+			fetcher: recordingFetcher(requests),
+			protocol: 'http/protobuf',
+		})
+
+		const result = await exportSpans(exporter, [createSpan()])
+
+		expect(result.code).toBe(ExportResultCode.SUCCESS)
+		expect(requests[0]!.headers.get('content-type')).toBe('application/x-protobuf')
+		const body = new Uint8Array(await requests[0]!.arrayBuffer())
+		expect(body.byteLength).toBeGreaterThan(0)
+		// first field of ExportTraceServiceRequest is resource_spans (field 1, length-delimited)
+		expect(body[0]).toBe(0x0a)
+	})
+
+	it('gzips the body when compression is enabled', async () => {
+		const requests: Request[] = []
+		const exporter = new OTLPExporter({
+			url: 'https://collector.example/v1/traces',
+			fetcher: recordingFetcher(requests),
+			compression: 'gzip',
+		})
+
+		const result = await exportSpans(exporter, [createSpan()])
+
+		expect(result.code).toBe(ExportResultCode.SUCCESS)
+		expect(requests[0]!.headers.get('content-encoding')).toBe('gzip')
+		const decompressed = requests[0]!.body!.pipeThrough(new DecompressionStream('gzip'))
+		const body = (await new Response(decompressed).json()) as { resourceSpans: unknown[] }
+		expect(body.resourceSpans).toHaveLength(1)
+	})
+
+	it('fails on non-2xx responses', async () => {
+		const requests: Request[] = []
+		const exporter = new OTLPExporter({
+			url: 'https://collector.example/v1/traces',
+			fetcher: recordingFetcher(requests, 400),
+		})
+
+		const result = await exportSpans(exporter, [createSpan()])
+
+		expect(result.code).toBe(ExportResultCode.FAILED)
+	})
+
+	it('retries retryable status codes', async () => {
+		const requests: Request[] = []
+		const exporter = new OTLPExporter({
+			url: 'https://collector.example/v1/traces',
+			fetcher: sequenceFetcher(requests, [
+				new Response(null, { status: 503 }),
+				new Response(null, { status: 429, headers: { 'retry-after': '0' } }),
+			]),
+			retry: { initialBackoffMs: 1 },
+		})
+
+		const result = await exportSpans(exporter, [createSpan()])
+
+		expect(result.code).toBe(ExportResultCode.SUCCESS)
+		expect(requests).toHaveLength(3)
+	})
+
+	it('gives up after maxAttempts', async () => {
+		const requests: Request[] = []
+		const exporter = new OTLPExporter({
+			url: 'https://collector.example/v1/traces',
+			fetcher: recordingFetcher(requests, 503),
+			retry: { maxAttempts: 2, initialBackoffMs: 1 },
+		})
+
+		const result = await exportSpans(exporter, [createSpan()])
+
+		expect(result.code).toBe(ExportResultCode.FAILED)
+		expect(requests).toHaveLength(2)
+	})
+
+	it('falls back to the defaults for undefined retry options', async () => {
+		const requests: Request[] = []
+		const exporter = new OTLPExporter({
+			url: 'https://collector.example/v1/traces',
+			fetcher: recordingFetcher(requests, 503),
+			retry: { maxAttempts: undefined, initialBackoffMs: 1, maxBackoffMs: undefined },
+		})
+
+		const result = await exportSpans(exporter, [createSpan()])
+
+		expect(result.code).toBe(ExportResultCode.FAILED)
+		expect(requests).toHaveLength(5)
+	})
+
+	it('does not retry when retries are disabled', async () => {
+		const requests: Request[] = []
+		const exporter = new OTLPExporter({
+			url: 'https://collector.example/v1/traces',
+			fetcher: recordingFetcher(requests, 503),
+			retry: false,
+		})
+
+		const result = await exportSpans(exporter, [createSpan()])
+
+		expect(result.code).toBe(ExportResultCode.FAILED)
+		expect(requests).toHaveLength(1)
+	})
+})
+
+describe('OTLPTransport', () => {
+	it('sends protobuf when configured', async () => {
+		const requests: Request[] = []
+		const transport = new OTLPTransport({
+			url: 'https://collector.example/v1/logs',
+			fetcher: recordingFetcher(requests),
+			protocol: 'http/protobuf',
+		})
+
+		const result = await exportLogs(transport, [createLogRecord()])
+
+		expect(result.code).toBe(ExportResultCode.SUCCESS)
+		expect(requests[0]!.headers.get('content-type')).toBe('application/x-protobuf')
+		const body = new Uint8Array(await requests[0]!.arrayBuffer())
+		// first field of ExportLogsServiceRequest is resource_logs (field 1, length-delimited)
+		expect(body[0]).toBe(0x0a)
+		expect(new TextDecoder().decode(body)).toContain('order created')
+	})
+
+	it('gzips the body when compression is enabled', async () => {
+		const requests: Request[] = []
+		const transport = new OTLPTransport({
+			url: 'https://collector.example/v1/logs',
+			fetcher: recordingFetcher(requests),
+			compression: 'gzip',
+		})
+
+		const result = await exportLogs(transport, [createLogRecord()])
+
+		expect(result.code).toBe(ExportResultCode.SUCCESS)
+		expect(requests[0]!.headers.get('content-encoding')).toBe('gzip')
+		const decompressed = requests[0]!.body!.pipeThrough(new DecompressionStream('gzip'))
+		const body = (await new Response(decompressed).json()) as {
+			resourceLogs: { scopeLogs: { logRecords: { body: unknown }[] }[] }[]
+		}
+		expect(body.resourceLogs[0]!.scopeLogs[0]!.logRecords[0]!.body).toEqual({ stringValue: 'order created' })
+	})
+
+	it('retries retryable status codes', async () => {
+		const requests: Request[] = []
+		const transport = new OTLPTransport({
+			url: 'https://collector.example/v1/logs',
+			fetcher: sequenceFetcher(requests, [new Response(null, { status: 503 })]),
+			retry: { initialBackoffMs: 1 },
+		})
+
+		const result = await exportLogs(transport, [createLogRecord()])
+
+		expect(result.code).toBe(ExportResultCode.SUCCESS)
+		expect(requests).toHaveLength(2)
+	})
+
+	it('gives up after maxAttempts', async () => {
+		const requests: Request[] = []
+		const transport = new OTLPTransport({
+			url: 'https://collector.example/v1/logs',
+			fetcher: recordingFetcher(requests, 503),
+			retry: { maxAttempts: 3, initialBackoffMs: 1 },
+		})
+
+		const result = await exportLogs(transport, [createLogRecord()])
+
+		expect(result.code).toBe(ExportResultCode.FAILED)
+		expect(requests).toHaveLength(3)
+	})
+})
+
+describe('ZipkinExporter', () => {
+	it('converts spans into the Zipkin v2 JSON model', async () => {
+		const requests: Request[] = []
+		const exporter = new ZipkinExporter({
+			url: 'https://zipkin.example/api/v2/spans',
+			fetcher: recordingFetcher(requests, 202),
+		})
+		const span = new SpanImpl({
+			attributes: { 'server.address': 'api.example.com', 'server.port': 443, 'http.response.status_code': 500 },
+			name: 'GET',
+			onEnd: () => {},
+			resource: resourceFromAttributes({ 'service.name': 'test' }),
+			spanContext: {
+				traceId: '0af7651916cd43dd8448eb211c80319c',
+				spanId: 'b7ad6b7169203331',
+				traceFlags: TraceFlags.SAMPLED,
+			},
+			parentSpanContext: {
+				traceId: '0af7651916cd43dd8448eb211c80319c',
+				spanId: '00f067aa0ba902b7',
+				traceFlags: TraceFlags.SAMPLED,
+			},
+			spanKind: SpanKind.CLIENT,
+		})
+		span.addEvent('retry', { attempt: 2 })
+		span.setStatus({ code: SpanStatusCode.ERROR, message: 'upstream failed' })
+		span.end()
+
+		const result = await new Promise<ExportResult>((resolve) => exporter.export([span], resolve))
+
+		expect(result.code).toBe(ExportResultCode.SUCCESS)
+		const [zipkinSpan] = (await requests[0]!.json()) as Record<string, any>[]
+		expect(zipkinSpan).toMatchObject({
+			traceId: '0af7651916cd43dd8448eb211c80319c',
+			parentId: '00f067aa0ba902b7',
+			id: 'b7ad6b7169203331',
+			kind: 'CLIENT',
+			localEndpoint: { serviceName: 'test' },
+			remoteEndpoint: { serviceName: 'api.example.com', port: 443 },
+			annotations: [{ value: '{"retry":{"attempt":2}}' }],
+			tags: { 'http.response.status_code': '500', 'otel.status_code': 'ERROR', error: 'upstream failed' },
+		})
+	})
+})
+
+describe('AnalyticsEngineExporter', () => {
+	it('writes a data point per span laid out from the schema', async () => {
+		const dataPoints: AnalyticsEngineDataPoint[] = []
+		const exporter = new AnalyticsEngineExporter({
+			dataset: { writeDataPoint: (dataPoint) => void dataPoints.push(dataPoint!) },
+			schema: {
+				index: 'service.name',
+				blobs: ['span.name', 'http.request.method', 'http.route', (span) => span.spanContext().traceId],
+				doubles: ['span.duration_ms', 'http.response.status_code'],
+			},
+		})
+
+		const result = await new Promise<ExportResult>((resolve) => exporter.export([createSpan()], resolve))
+
+		expect(result.code).toBe(ExportResultCode.SUCCESS)
+		expect(dataPoints).toEqual([
+			{
+				indexes: ['test'],
+				blobs: ['GET /', 'GET', null, '0af7651916cd43dd8448eb211c80319c'],
+				doubles: [expect.any(Number), 0],
+			},
+		])
+	})
+
+	it('truncates the index on a character boundary', async () => {
+		const dataPoints: AnalyticsEngineDataPoint[] = []
+		const exporter = new AnalyticsEngineExporter({
+			dataset: { writeDataPoint: (dataPoint) => void dataPoints.push(dataPoint!) },
+			schema: { index: () => 'a' + '€'.repeat(40), blobs: [], doubles: [] },
+		})
+
+		await new Promise<ExportResult>((resolve) => exporter.export([createSpan()], resolve))
+
+		// 'a' and 31 three-byte characters fit into 96 bytes
+		expect(dataPoints[0]!.indexes).toEqual(['a' + '€'.repeat(31)])
+	})
+	it('writes at most 250 data points per export', async () => {
+		const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+		const dataPoints: AnalyticsEngineDataPoint[] = []
+		const exporter = new AnalyticsEngineExporter({
+			dataset: { writeDataPoint: (dataPoint) => void dataPoints.push(dataPoint!) },
+		})
+		const spans = Array.from({ length: 300 }, () => createSpan())
+
+		try {
+			const result = await new Promise<ExportResult>((resolve) => exporter.export(spans, resolve))
+
+			expect(result.code).toBe(ExportResultCode.SUCCESS)
+			expect(dataPoints).toHaveLength(250)
+			expect(log).toHaveBeenCalledWith(expect.stringContaining('dropping 50 spans'))
+		} finally {
+			log.mockRestore()
+		}
+	})
+})
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi } from 'vitest'
+import { metrics, SpanStatusCode } from '@opentelemetry/api'
+import { ExportResult, ExportResultCode } from '@opentelemetry/core'
+import { resourceFromAttributes } from '@opentelemetry/resources'
+import { AggregationTemporality, DataPointType, PushMetricExporter, ResourceMetrics } from '@opentelemetry/sdk-metrics'
+import { ReadableSpan } from '@opentelemetry/sdk-trace-base'
+
+import { WorkerMeterProvider } from '../../src/metrics/provider'
+import { OTLPMetricExporter } from '../../src/metrics/exporter'
+import { SpanMetricsProcessor } from '../../src/metrics/spanmetrics'
+import { instrumentWebSocketHandlerFn } from '../../src/instrumentation/do-websocket'
+
+class InMemoryMetricExporter implements PushMetricExporter {
+	exported: ResourceMetrics[] = []
+
+	export(metrics: ResourceMetrics, resultCallback: (result: ExportResult) => void): void {
+		this.exported.push(metrics)
+		resultCallback({ code: ExportResultCode.SUCCESS })
+	}
+
+	async forceFlush(): Promise<void> {}
+
+	async shutdown(): Promise<void> {}
+}
+
+const resource = resourceFromAttributes({ 'service.name': 'test' })
+
+function metricsOf(exported: ResourceMetrics) {
+	return exported.scopeMetrics.flatMap((scope) => scope.metrics)
+}
+
+describe('WorkerMeterProvider', () => {
+	it('aggregates counters per attribute set and resets them with delta temporality', async () => {
+		const exporter = new InMemoryMetricExporter()
+		const provider = new WorkerMeterProvider(exporter, resource)
+		const counter = provider.getMeter('test').createCounter('requests')
+
+		counter.add(1, { route: '/a' })
+		counter.add(2, { route: '/a' })
+		counter.add(1, { route: '/b' })
+		counter.add(-1, { route: '/b' })
+		await provider.forceFlush()
+
+		const [metric] = metricsOf(exporter.exported[0]!)
+		expect(metric!.dataPointType).toBe(DataPointType.SUM)
+		expect(metric!.aggregationTemporality).toBe(AggregationTemporality.DELTA)
+		expect(metric!.dataPoints.map((dp) => [dp.attributes['route'], dp.value])).toEqual([
+			['/a', 3],
+			['/b', 1],
+		])
+
+		await provider.forceFlush()
+		expect(exporter.exported).toHaveLength(1)
+	})
+
+	it('keeps cumulative sums across collections', async () => {
+		const exporter = new InMemoryMetricExporter()
+		const provider = new WorkerMeterProvider(exporter, resource, 'cumulative')
+		const counter = provider.getMeter('test').createUpDownCounter('connections')
+
+		counter.add(3)
+		await provider.forceFlush()
+		counter.add(-1)
+		await provider.forceFlush()
+
+		const [metric] = metricsOf(exporter.exported[1]!)
+		expect(metric!.dataPoints[0]!.value).toBe(2)
+	})
+
+	it('buckets histogram values', async () => {
+		const exporter = new InMemoryMetricExporter()
+		const provider = new WorkerMeterProvider(exporter, resource)
+		const histogram = provider
+			.getMeter('test')
+			.createHistogram('duration', { unit: 'ms', advice: { explicitBucketBoundaries: [10, 100] } })
+
+		histogram.record(5)
+		histogram.record(50)
+		histogram.record(500)
+		await provider.forceFlush()
+
+		const [metric] = metricsOf(exporter.exported[0]!)
+		expect(metric!.dataPointType).toBe(DataPointType.HISTOGRAM)
+		expect(metric!.dataPoints[0]!.value).toMatchObject({
+			count: 3,
+			sum: 555,
+			min: 5,
+			max: 500,
+			buckets: { boundaries: [10, 100], counts: [1, 1, 1] },
+		})
+	})
+
+	it('invokes observable callbacks on collection', async () => {
+		const exporter = new InMemoryMetricExporter()
+		const provider = new WorkerMeterProvider(exporter, resource)
+		const gauge = provider.getMeter('test').createObservableGauge('queue.depth')
+		gauge.addCallback((result) => result.observe(42, { queue: 'jobs' }))
+
+		await provider.forceFlush()
+
+		const [metric] = metricsOf(exporter.exported[0]!)
+		expect(metric!.dataPointType).toBe(DataPointType.GAUGE)
+		expect(metric!.dataPoints[0]!.value).toBe(42)
+	})
+})
+
+describe('OTLPMetricExporter', () => {
+	it('sends OTLP JSON', async () => {
+		const requests: Request[] = []
+		const exporter = new OTLPMetricExporter({
+			url: 'https://collector.example/v1/metrics',
+			fetcher: async (input, init) => {
+				requests.push(new Request(input as RequestInfo, init as RequestInit))
+				return new Response(null, { status: 200 })
+			},
+		})
+		const provider = new WorkerMeterProvider(exporter, resource)
+		provider.getMeter('test').createCounter('requests').add(1)
+
+		await provider.forceFlush()
+
+		const body = (await requests[0]!.json()) as { resourceMetrics: { scopeMetrics: { metrics: unknown[] }[] }[] }
+		expect(body.resourceMetrics[0]!.scopeMetrics[0]!.metrics).toHaveLength(1)
+	})
+})
+
+describe('SpanMetricsProcessor', () => {
+	function endedSpan(attributes: ReadableSpan['attributes'], durationMs: number, code = SpanStatusCode.UNSET) {
+		return { attributes, duration: [0, durationMs * 1e6], status: { code } } as unknown as ReadableSpan
+	}
+
+	it('records request, error and duration metrics for handler and binding spans', async () => {
+		const exporter = new InMemoryMetricExporter()
+		const provider = new WorkerMeterProvider(exporter, resource)
+		const processor = new SpanMetricsProcessor(provider.getMeter('test'))
+
+		const handlerAttributes = {
+			'faas.trigger': 'http',
+			'http.route': '/users/:id',
+			'http.response.status_code': 500,
+			'url.full': 'https://example.com/users/1',
+		}
+		processor.onEnd(endedSpan(handlerAttributes, 120, SpanStatusCode.ERROR))
+		processor.onEnd(endedSpan({ 'cloudflare.binding.type': 'KV', 'cloudflare.binding.name': 'CACHE' }, 4))
+		processor.onEnd(endedSpan({ 'http.request.method': 'GET' }, 10))
+		await provider.forceFlush()
+
+		const metrics = Object.fromEntries(metricsOf(exporter.exported[0]!).map((m) => [m.descriptor.name, m]))
+		expect(Object.keys(metrics).sort()).toEqual([
+			'cloudflare.binding.duration',
+			'cloudflare.binding.requests',
+			'cloudflare.handler.duration',
+			'cloudflare.handler.errors',
+			'cloudflare.handler.requests',
+		])
+		expect(metrics['cloudflare.handler.errors']!.dataPoints[0]!.attributes).toEqual({
+			'faas.trigger': 'http',
+			'http.route': '/users/:id',
+			'http.response.status_code': 500,
+		})
+		expect(metrics['cloudflare.handler.duration']!.dataPoints[0]!.value).toMatchObject({ count: 1, sum: 120 })
+		expect(metrics['cloudflare.binding.requests']!.dataPoints[0]).toMatchObject({
+			attributes: { 'cloudflare.binding.type': 'KV', 'cloudflare.binding.name': 'CACHE' },
+			value: 1,
+		})
+	})
+})
+
+describe('Durable Object metrics', () => {
+	it('exports metrics at the end of every invocation', async () => {
+		const exporter = new InMemoryMetricExporter()
+		const provider = new WorkerMeterProvider(exporter, resource)
+		const getMeterProvider = vi.spyOn(metrics, 'getMeterProvider').mockReturnValue(provider)
+		const waitUntil: Promise<unknown>[] = []
+		const state = {
+			id: { toString: () => 'a1b2c3' },
+			getTags: () => [],
+			waitUntil: (promise: Promise<unknown>) => waitUntil.push(promise),
+		} as unknown as DurableObjectState
+
+		try {
+			const webSocketClose = instrumentWebSocketHandlerFn(
+				async () => provider.getMeter('test').createCounter('closed').add(1),
+				'webSocketClose',
+				() => ({}),
+				{},
+				state,
+			)
+			await webSocketClose({} as WebSocket, 1000, 'bye', true)
+			await Promise.all(waitUntil)
+		} finally {
+			getMeterProvider.mockRestore()
+		}
+
+		expect(waitUntil).toHaveLength(1)
+		expect(metricsOf(exporter.exported[0]!).map((metric) => metric.descriptor.name)).toEqual(['closed'])
+	})
+})
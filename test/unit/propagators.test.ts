@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import { defaultTextMapGetter, defaultTextMapSetter, ROOT_CONTEXT, trace, TraceFlags } from '@opentelemetry/api'
+import { W3CTraceContextPropagator } from '@opentelemetry/core'
+
+import { AWSXRayPropagator, B3Propagator, CompositeTracePropagator, JaegerPropagator } from '../../src/propagators'
+
+const traceId = '5759e988bd862e3fe1be46a994272793'
+const spanId = '53995c3f42cd8ad8'
+const context = trace.setSpanContext(ROOT_CONTEXT, { traceId, spanId, traceFlags: TraceFlags.SAMPLED })
+
+function extract(propagator: { extract: typeof B3Propagator.prototype.extract }, headers: Record<string, string>) {
+	return trace.getSpanContext(propagator.extract(ROOT_CONTEXT, headers, defaultTextMapGetter))
+}
+
+describe('B3Propagator', () => {
+	it('injects the single and multi header encodings', () => {
+		const single: Record<string, string> = {}
+		new B3Propagator().inject(context, single, defaultTextMapSetter)
+		expect(single).toEqual({ b3: `${traceId}-${spanId}-1` })
+
+		const multi: Record<string, string> = {}
+		new B3Propagator({ injectEncoding: 'multi' }).inject(context, multi, defaultTextMapSetter)
+		expect(multi).toEqual({ 'x-b3-traceid': traceId, 'x-b3-spanid': spanId, 'x-b3-sampled': '1' })
+	})
+
+	it('extracts both encodings and pads 64 bit trace ids', () => {
+		expect(extract(new B3Propagator(), { b3: `e1be46a994272793-${spanId}-d` })).toMatchObject({
+			traceId: '0000000000000000e1be46a994272793',
+			spanId,
+			traceFlags: TraceFlags.SAMPLED,
+			isRemote: true,
+		})
+		expect(
+			extract(new B3Propagator(), { 'x-b3-traceid': traceId, 'x-b3-spanid': spanId, 'x-b3-sampled': '0' }),
+		).toMatchObject({ traceId, spanId, traceFlags: TraceFlags.NONE })
+		expect(extract(new B3Propagator(), { b3: '1' })).toBeUndefined()
+	})
+})
+
+describe('JaegerPropagator', () => {
+	it('round trips the uber-trace-id header', () => {
+		const headers: Record<string, string> = {}
+		new JaegerPropagator().inject(context, headers, defaultTextMapSetter)
+		expect(headers).toEqual({ 'uber-trace-id': `${traceId}:${spanId}:0:01` })
+		expect(extract(new JaegerPropagator(), { 'uber-trace-id': `e1be46a994272793%3A${spanId}%3A0%3A1` })).toMatchObject({
+			traceId: '0000000000000000e1be46a994272793',
+			spanId,
+			traceFlags: TraceFlags.SAMPLED,
+		})
+	})
+})
+
+describe('AWSXRayPropagator', () => {
+	it('round trips the X-Amzn-Trace-Id header', () => {
+		const header = `Root=1-5759e988-bd862e3fe1be46a994272793;Parent=${spanId};Sampled=1`
+		const headers: Record<string, string> = {}
+		new AWSXRayPropagator().inject(context, headers, defaultTextMapSetter)
+		expect(headers).toEqual({ 'x-amzn-trace-id': header })
+		expect(extract(new AWSXRayPropagator(), { 'x-amzn-trace-id': header })).toMatchObject({
+			traceId,
+			spanId,
+			traceFlags: TraceFlags.SAMPLED,
+		})
+	})
+})
+
+describe('CompositeTracePropagator', () => {
+	const propagator = new CompositeTracePropagator([
+		new W3CTraceContextPropagator(),
+		new B3Propagator(),
+		new AWSXRayPropagator(),
+	])
+
+	it('injects all formats', () => {
+		const headers: Record<string, string> = {}
+		propagator.inject(context, headers, defaultTextMapSetter)
+		expect(Object.keys(headers).sort()).toEqual(['b3', 'traceparent', 'x-amzn-trace-id'])
+		expect(propagator.fields()).toEqual(['traceparent', 'tracestate', 'b3', 'x-amzn-trace-id'])
+	})
+
+	it('extracts the span context found first', () => {
+		const headers = {
+			traceparent: `00-${traceId}-${spanId}-01`,
+			b3: '0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-1',
+		}
+		expect(extract(propagator, headers)?.spanId).toBe(spanId)
+		expect(extract(propagator, { b3: headers.b3 })?.spanId).toBe('b7ad6b7169203331')
+		expect(extract(propagator, {})).toBeUndefined()
+	})
+})
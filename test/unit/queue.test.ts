@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { INVALID_SPAN_CONTEXT, propagation, SpanStatusCode, trace } from '@opentelemetry/api'
+import { W3CTraceContextPropagator } from '@opentelemetry/core'
+
+import { getActiveConfig } from '../../src/config'
+import {
+	instrumentQueueSender,
+	isQueueContextCarrier,
+	QueueInstrumentation,
+	withMessageSpan,
+} from '../../src/instrumentation/queue'
+import { useTestTracer } from '../setup'
+
+function fakeQueue(sent: unknown[][]): Queue<unknown> {
+	return {
+		send: async (...args: unknown[]) => {
+			sent.push(args)
+		},
+		sendBatch: async (...args: unknown[]) => {
+			sent.push(args)
+		},
+	} as unknown as Queue<unknown>
+}
+
+function fakeBatch(bodies: unknown[]): MessageBatch {
+	const messages = bodies.map((body, i) => ({
+		id: `message-${i}`,
+		timestamp: new Date(),
+		attempts: 1,
+		body,
+		ack: () => {},
+		retry: () => {},
+	}))
+	return { queue: 'test-queue', messages, ackAll: () => {}, retryAll: () => {} } as unknown as MessageBatch
+}
+
+describe('queue trace context', () => {
+	it('wraps sent message bodies unless they are text or bytes', async () => {
+		const sent: unknown[][] = []
+		const queue = instrumentQueueSender(fakeQueue(sent), 'test-queue')
+		await queue.send({ order: 1 })
+		await queue.send('plain', { contentType: 'text' })
+		await queue.sendBatch([{ body: { order: 2 } }, { body: new Uint8Array(1), contentType: 'bytes' }])
+
+		expect(isQueueContextCarrier(sent[0]![0])).toBe(true)
+		expect(sent[1]![0]).toBe('plain')
+		const batch = sent[2]![0] as MessageSendRequest[]
+		expect(isQueueContextCarrier(batch[0]!.body)).toBe(true)
+		expect(batch[1]!.body).toBeInstanceOf(Uint8Array)
+	})
+
+	it('unwraps message bodies and links the consumer span to the producers', () => {
+		propagation.setGlobalPropagator(new W3CTraceContextPropagator())
+		const carrier = {
+			__otel_queue_ctx__: true,
+			headers: { traceparent: '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01' },
+			body: { order: 1 },
+		}
+		const instrumentation = new QueueInstrumentation()
+		const batch = fakeBatch([carrier, { order: 2 }])
+
+		const { options } = instrumentation.getInitialSpanInfo(batch)
+		expect(options.links).toEqual([
+			{
+				context: expect.objectContaining({ traceId: '0af7651916cd43dd8448eb211c80319c', spanId: 'b7ad6b7169203331' }),
+				attributes: { 'messaging.message.id': 'message-0' },
+			},
+		])
+
+		const instrumented = instrumentation.instrumentTrigger(batch)
+		expect(instrumented.messages.map((message) => message.body)).toEqual([{ order: 1 }, { order: 2 }])
+		propagation.disable()
+	})
+})
+
+describe('queue message spans', () => {
+	const { exporter, provider } = useTestTracer({ contextManager: true })
+
+	beforeEach(() => {
+		const config = getActiveConfig()!
+		vi.mocked(getActiveConfig).mockReturnValue({
+			...config,
+			handlers: { ...config.handlers, queue: { acceptTraceContext: true, messageSpans: true } },
+		})
+	})
+
+	it('creates a span per message ending with its ack or retry', () => {
+		const instrumentation = new QueueInstrumentation()
+		const batch = fakeBatch([{ order: 1 }, { order: 2 }, { order: 3 }])
+		const instrumented = instrumentation.instrumentTrigger(batch)
+		instrumented.messages[0]!.ack()
+		instrumented.messages[1]!.retry()
+		void instrumented.messages[2]!.body
+		instrumentation.executionSucces(trace.wrapSpanContext(INVALID_SPAN_CONTEXT), batch)
+
+		const spans = exporter.getFinishedSpans()
+		expect(spans.map((span) => [span.attributes['messaging.message.id'], span.status.code])).toEqual([
+			['message-0', SpanStatusCode.OK],
+			['message-1', SpanStatusCode.ERROR],
+			['message-2', SpanStatusCode.OK],
+		])
+		expect(spans[0]!.name).toBe('test-queue process')
+		expect(spans[0]!.attributes).toMatchObject({
+			'messaging.operation.type': 'process',
+			'cloudflare.queue.message.attempts': 1,
+			'cloudflare.queue.message.outcome': 'ack',
+		})
+		expect(spans[2]!.attributes['cloudflare.queue.message.outcome']).toBe('ack')
+	})
+
+	it('runs the processing of a message inside its span', () => {
+		const instrumentation = new QueueInstrumentation()
+		const instrumented = instrumentation.instrumentTrigger(fakeBatch([{ order: 1 }]))
+		for (const message of instrumented.messages) {
+			withMessageSpan(message, () => provider.getTracer('test').startSpan('fetch').end())
+			message.ack()
+		}
+
+		const [fetch, process] = exporter.getFinishedSpans()
+		expect(process!.name).toBe('test-queue process')
+		expect(fetch!.parentSpanContext?.spanId).toBe(process!.spanContext().spanId)
+	})
+})
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from 'vitest'
+import { Attributes, SpanKind, TraceFlags } from '@opentelemetry/api'
+import { ExportResult, ExportResultCode } from '@opentelemetry/core'
+import { resourceFromAttributes } from '@opentelemetry/resources'
+
+import { createOTLPQueueConsumer, OTLPQueueMessage, QueueSpanExporter } from '../../src/queueexporter'
+import { compressBody, decompressBody } from '../../src/compression'
+import { SpanImpl } from '../../src/span'
+
+function createSpan(attributes: Attributes = {}): SpanImpl {
+	const span = new SpanImpl({
+		attributes,
+		name: 'GET /',
+		onEnd: () => {},
+		resource: resourceFromAttributes({ 'service.name': 'test' }),
+		spanContext: {
+			traceId: '0af7651916cd43dd8448eb211c80319c',
+			spanId: 'b7ad6b7169203331',
+			traceFlags: TraceFlags.SAMPLED,
+		},
+		spanKind: SpanKind.SERVER,
+	})
+	span.end()
+	return span
+}
+
+function recordingQueue(messages: OTLPQueueMessage[]): Queue<OTLPQueueMessage> {
+	return {
+		send: async (message: OTLPQueueMessage) => {
+			messages.push(message)
+		},
+		sendBatch: async () => {},
+	} as unknown as Queue<OTLPQueueMessage>
+}
+
+function queueMessage(body: OTLPQueueMessage) {
+	return { id: '1', timestamp: new Date(), attempts: 1, body, ack: vi.fn(), retry: vi.fn() }
+}
+
+function consume(messages: ReturnType<typeof queueMessage>[], handler: ReturnType<typeof createOTLPQueueConsumer>) {
+	const batch = { queue: 'telemetry', messages } as unknown as MessageBatch<OTLPQueueMessage>
+	return handler(batch, {}, {} as ExecutionContext)
+}
+
+describe('QueueSpanExporter', () => {
+	it('sends serialized spans to the queue', async () => {
+		const messages: OTLPQueueMessage[] = []
+		const exporter = new QueueSpanExporter({ queue: recordingQueue(messages) })
+
+		const result = await new Promise<ExportResult>((resolve) => exporter.export([createSpan()], resolve))
+
+		expect(result.code).toBe(ExportResultCode.SUCCESS)
+		expect(messages[0]).toMatchObject({ signal: 'traces', protocol: 'http/json', compression: 'none' })
+		const body = JSON.parse(messages[0]!.body as string) as { resourceSpans: unknown[] }
+		expect(body.resourceSpans).toHaveLength(1)
+	})
+
+	it('splits batches exceeding the message size limit across several messages', async () => {
+		const messages: OTLPQueueMessage[] = []
+		const exporter = new QueueSpanExporter({ queue: recordingQueue(messages) })
+		const spans = Array.from({ length: 5 }, () => createSpan({ 'http.request.body': 'x'.repeat(50_000) }))
+
+		const result = await new Promise<ExportResult>((resolve) => exporter.export(spans, resolve))
+
+		expect(result.code).toBe(ExportResultCode.SUCCESS)
+		expect(messages.length).toBeGreaterThan(1)
+		const exported = messages.map((message) => {
+			const body = message.body as string
+			expect(new TextEncoder().encode(body).byteLength).toBeLessThanOrEqual(128 * 1024)
+			const request = JSON.parse(body) as { resourceSpans: { scopeSpans: { spans: unknown[] }[] }[] }
+			return request.resourceSpans.flatMap((resource) => resource.scopeSpans.flatMap((scope) => scope.spans)).length
+		})
+		expect(exported.reduce((total, count) => total + count, 0)).toBe(5)
+	})
+})
+
+describe('createOTLPQueueConsumer', () => {
+	const body: OTLPQueueMessage = { signal: 'traces', protocol: 'http/protobuf', compression: 'gzip', body: 'payload' }
+
+	it('forwards messages to the configured endpoint', async () => {
+		const requests: Request[] = []
+		const handler = createOTLPQueueConsumer({
+			traces: {
+				url: 'https://collector.example/v1/traces',
+				fetcher: async (input, init) => {
+					requests.push(new Request(input as RequestInfo, init as RequestInit))
+					return new Response(null, { status: 200 })
+				},
+			},
+		})
+		const message = queueMessage(body)
+
+		await consume([message], handler)
+
+		expect(message.ack).toHaveBeenCalled()
+		expect(requests[0]!.headers.get('content-type')).toBe('application/x-protobuf')
+		expect(requests[0]!.headers.get('content-encoding')).toBe('gzip')
+		expect(await requests[0]!.text()).toBe('payload')
+	})
+
+	it('retries retryable failures and drops rejected payloads', async () => {
+		const statuses = [503, 400]
+		const handler = createOTLPQueueConsumer({
+			traces: {
+				url: 'https://collector.example/v1/traces',
+				fetcher: async () => new Response(null, { status: statuses.shift(), headers: { 'retry-after': '3' } }),
+			},
+		})
+		const retried = queueMessage(body)
+		const rejected = queueMessage(body)
+
+		await consume([retried], handler)
+		await consume([rejected], handler)
+
+		expect(retried.retry).toHaveBeenCalledWith({ delaySeconds: 3 })
+		expect(rejected.ack).toHaveBeenCalled()
+		expect(rejected.retry).not.toHaveBeenCalled()
+	})
+	it('merges messages sharing an endpoint into a single request', async () => {
+		const requests: Request[] = []
+		const fetcher = async (input: RequestInfo | URL, init?: RequestInit) => {
+			requests.push(new Request(input as RequestInfo, init as RequestInit))
+			return new Response(null, { status: 200 })
+		}
+		const handler = createOTLPQueueConsumer({
+			traces: { url: 'https://collector.example/v1/traces', fetcher },
+			logs: { url: 'https://collector.example/v1/logs', fetcher },
+		})
+		const traces = async (name: string): Promise<OTLPQueueMessage> => ({
+			signal: 'traces',
+			protocol: 'http/json',
+			compression: 'gzip',
+			body: await compressBody(JSON.stringify({ resourceSpans: [{ name }] }), 'gzip'),
+		})
+		const messages = [
+			queueMessage(await traces('a')),
+			queueMessage({ signal: 'logs', protocol: 'http/json', compression: 'none', body: '{"resourceLogs":[{}]}' }),
+			queueMessage(await traces('b')),
+		]
+
+		await consume(messages, handler)
+
+		expect(requests).toHaveLength(2)
+		const tracesRequest = requests.find((request) => request.url.endsWith('/v1/traces'))!
+		expect(tracesRequest.headers.get('content-encoding')).toBe('gzip')
+		const merged = await decompressBody(await tracesRequest.arrayBuffer(), 'gzip')
+		expect(JSON.parse(new TextDecoder().decode(merged as Uint8Array))).toEqual({
+			resourceSpans: [{ name: 'a' }, { name: 'b' }],
+		})
+		for (const message of messages) {
+			expect(message.ack).toHaveBeenCalled()
+		}
+	})
+})
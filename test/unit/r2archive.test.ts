@@ -0,0 +1,132 @@
+import { describe, it, expect, vi } from 'vitest'
+import { env } from 'cloudflare:test'
+import { ROOT_CONTEXT, SpanKind, TraceFlags, trace } from '@opentelemetry/api'
+import { resourceFromAttributes } from '@opentelemetry/resources'
+import { BasicTracerProvider, InMemorySpanExporter } from '@opentelemetry/sdk-trace-base'
+
+import { R2ArchiveSpanProcessor } from '../../src/r2archive'
+import { SpanImpl } from '../../src/span'
+import { BatchTraceSpanProcessor } from '../../src/spanprocessor'
+
+function endedSpan(traceId: string, spanId = 'b7ad6b7169203331'): SpanImpl {
+	const span = new SpanImpl({
+		attributes: {},
+		name: 'GET /',
+		onEnd: () => {},
+		resource: resourceFromAttributes({ 'service.name': 'archive-test' }),
+		spanContext: { traceId, spanId, traceFlags: TraceFlags.NONE },
+		spanKind: SpanKind.SERVER,
+		startTime: Date.UTC(2025, 0, 2),
+	})
+	span.end()
+	return span
+}
+
+describe('R2ArchiveSpanProcessor', () => {
+	it('archives dropped traces as gzipped OTLP JSON', async () => {
+		const processor = new R2ArchiveSpanProcessor({
+			bucket: env.MY_BUCKET,
+			archive: 'dropped',
+			decisions: new BatchTraceSpanProcessor(new InMemorySpanExporter()),
+			prefix: 'traces/',
+		})
+		const dropped = endedSpan('0af7651916cd43dd8448eb211c80319c')
+		const sampled = endedSpan('1af7651916cd43dd8448eb211c80319c')
+
+		for (const span of [dropped, sampled]) {
+			processor.onEnd(span)
+			processor.onTraceDecision(
+				{ traceId: span.spanContext().traceId, localRootSpan: span, spans: [span] },
+				span === sampled,
+			)
+		}
+		await processor.forceFlush()
+
+		const listed = await env.MY_BUCKET.list({ prefix: 'traces/' })
+		expect(listed.objects.map((object) => object.key)).toEqual([
+			'traces/2025/01/02/archive-test/0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331.json.gz',
+		])
+		const object = await env.MY_BUCKET.get(listed.objects[0]!.key)
+		const json = await new Response(object!.body.pipeThrough(new DecompressionStream('gzip'))).json()
+		expect((json as { resourceSpans: unknown[] }).resourceSpans).toHaveLength(1)
+		expect(object!.customMetadata).toEqual({ sampled: 'false' })
+	})
+
+	it('waits for the trace decision and keeps earlier flushes of the trace', async () => {
+		const processor = new R2ArchiveSpanProcessor({
+			bucket: env.MY_BUCKET,
+			archive: 'sampled',
+			decisions: new BatchTraceSpanProcessor(new InMemorySpanExporter()),
+			prefix: 'partial/',
+		})
+		const traceId = '2af7651916cd43dd8448eb211c80319c'
+		const first = endedSpan(traceId, '0000000000000001')
+		const second = endedSpan(traceId, '0000000000000002')
+
+		processor.onEnd(first)
+		const flushed = processor.forceFlush(traceId)
+		// The tail sampler decides once the exporting processor is flushed
+		processor.onTraceDecision({ traceId, localRootSpan: first, spans: [first] }, true)
+		await flushed
+
+		// Later flushes of the same trace reuse the decision
+		processor.onEnd(second)
+		await processor.forceFlush(traceId)
+
+		const listed = await env.MY_BUCKET.list({ prefix: 'partial/' })
+		expect(listed.objects.map((object) => object.key)).toEqual([
+			`partial/2025/01/02/archive-test/${traceId}-0000000000000001.json.gz`,
+			`partial/2025/01/02/archive-test/${traceId}-0000000000000002.json.gz`,
+		])
+	})
+	it('archives a trace once all of its spans have ended, without a flush', async () => {
+		// Durable Objects rely on the processors to export a trace when it ends
+		const exporter = new InMemorySpanExporter()
+		const batch = new BatchTraceSpanProcessor(exporter)
+		const archive = new R2ArchiveSpanProcessor({
+			bucket: env.MY_BUCKET,
+			archive: 'sampled',
+			decisions: batch,
+			prefix: 'do/',
+		})
+		const tracer = new BasicTracerProvider({
+			resource: resourceFromAttributes({ 'service.name': 'archive-test' }),
+			spanProcessors: [batch, archive],
+		}).getTracer('test')
+
+		const root = tracer.startSpan('Durable Object Fetch')
+		const child = tracer.startSpan('storage get', {}, trace.setSpan(ROOT_CONTEXT, root))
+		child.end()
+		root.end()
+
+		await vi.waitFor(async () => {
+			const listed = await env.MY_BUCKET.list({ prefix: 'do/' })
+			expect(listed.objects.map((object) => object.key)).toEqual([
+				expect.stringMatching(`/archive-test/${root.spanContext().traceId}-[0-9a-f]{16}.json.gz$`),
+			])
+		})
+		expect(exporter.getFinishedSpans()).toHaveLength(2)
+	})
+
+	it('needs the exporting processor to follow its tail sampling decisions', async () => {
+		expect(() => new R2ArchiveSpanProcessor({ bucket: env.MY_BUCKET, archive: 'dropped' })).toThrow('decisions')
+
+		// A trace the exporting processor never decides on is not waited for forever
+		const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+		const processor = new R2ArchiveSpanProcessor({
+			bucket: env.MY_BUCKET,
+			archive: 'dropped',
+			decisions: new BatchTraceSpanProcessor(new InMemorySpanExporter()),
+			prefix: 'undecided/',
+		})
+		const traceId = '3af7651916cd43dd8448eb211c80319c'
+		processor.onEnd(endedSpan(traceId))
+		try {
+			await processor.forceFlush(traceId)
+			expect(log).toHaveBeenCalledWith(expect.stringContaining(traceId))
+		} finally {
+			log.mockRestore()
+		}
+		expect((await env.MY_BUCKET.list({ prefix: 'undecided/' })).objects).toEqual([])
+	})
+})
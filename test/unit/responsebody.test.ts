@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import { SpanStatusCode } from '@opentelemetry/api'
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base'
+
+import { instrumentResponseBody } from '../../src/instrumentation/fetch'
+
+function streamOf(chunks: string[], error?: Error): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder()
+	const remaining = [...chunks]
+	return new ReadableStream({
+		pull(controller) {
+			const chunk = remaining.shift()
+			if (chunk !== undefined) {
+				controller.enqueue(encoder.encode(chunk))
+			} else if (error) {
+				controller.error(error)
+			} else {
+				controller.close()
+			}
+		},
+	})
+}
+
+describe('response body tracing', () => {
+	const exporter = new InMemorySpanExporter()
+	const tracer = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] }).getTracer('test')
+
+	it('records the streamed body on the span', async () => {
+		const span = tracer.startSpan('GET /chat')
+		const response = new Response(streamOf(['data: hello\n\n', 'data: world\n\n']), {
+			status: 200,
+			headers: { 'content-type': 'text/event-stream' },
+		})
+
+		const instrumented = instrumentResponseBody(span, response)!
+		expect(instrumented.response.status).toBe(200)
+		expect(instrumented.response.headers.get('content-type')).toBe('text/event-stream')
+		expect(await instrumented.response.text()).toBe('data: hello\n\ndata: world\n\n')
+		await instrumented.done
+		span.end()
+
+		const [finished] = exporter.getFinishedSpans().slice(-1)
+		expect(finished!.attributes).toMatchObject({
+			'cloudflare.response.streamed_bytes': 26,
+			'cloudflare.response.stream.outcome': 'complete',
+		})
+		expect(finished!.attributes['cloudflare.response.time_to_first_byte_ms']).toBeTypeOf('number')
+	})
+
+	it('keeps the content length of the response', async () => {
+		const span = tracer.startSpan('GET /report')
+		const response = new Response(streamOf(['hello ', 'world']), { headers: { 'content-length': '11' } })
+
+		const instrumented = instrumentResponseBody(span, response)!
+		expect(instrumented.response.headers.get('content-length')).toBe('11')
+		expect(await instrumented.response.text()).toBe('hello world')
+		await instrumented.done
+		span.end()
+
+		const [finished] = exporter.getFinishedSpans().slice(-1)
+		expect(finished!.attributes).toMatchObject({
+			'cloudflare.response.streamed_bytes': 11,
+			'cloudflare.response.stream.outcome': 'complete',
+		})
+	})
+
+	it('records errors of the stream', async () => {
+		const span = tracer.startSpan('GET /chat')
+		const instrumented = instrumentResponseBody(span, new Response(streamOf(['partial'], new Error('upstream reset'))))!
+
+		const reader = instrumented.response.body!.getReader()
+		await reader.read()
+		await expect(reader.read()).rejects.toThrow('upstream reset')
+		await instrumented.done
+		span.end()
+
+		const [finished] = exporter.getFinishedSpans().slice(-1)
+		expect(finished!.attributes['cloudflare.response.stream.outcome']).toBe('error')
+		expect(finished!.status.code).toBe(SpanStatusCode.ERROR)
+		expect(finished!.events[0]!.name).toBe('exception')
+	})
+
+	it('records cancellation by the client', async () => {
+		const span = tracer.startSpan('GET /chat')
+		const body = new ReadableStream<Uint8Array>({
+			pull(controller) {
+				controller.enqueue(new Uint8Array(8))
+			},
+		})
+		const instrumented = instrumentResponseBody(span, new Response(body))!
+
+		const reader = instrumented.response.body!.getReader()
+		await reader.read()
+		await reader.cancel('client disconnected')
+		await instrumented.done
+		span.end()
+
+		const [finished] = exporter.getFinishedSpans().slice(-1)
+		expect(finished!.attributes['cloudflare.response.stream.outcome']).toBe('cancelled')
+		expect(finished!.status.code).toBe(SpanStatusCode.UNSET)
+	})
+
+	it('leaves responses without a body alone', () => {
+		const span = tracer.startSpan('HEAD /chat')
+		expect(instrumentResponseBody(span, new Response(null, { status: 204 }))).toBeUndefined()
+		span.end()
+	})
+})
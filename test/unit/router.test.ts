@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from 'vitest'
+import { context as api_context, ROOT_CONTEXT, trace } from '@opentelemetry/api'
+
+import { getActiveConfig } from '../../src/config'
+import { setHandlerSpan } from '../../src/instrumentation/common'
+import { fetchInstrumentation } from '../../src/instrumentation/fetch'
+import { createHonoMiddleware, instrumentIttyRouter, matchRoute } from '../../src/instrumentation/router'
+import { useTestTracer } from '../setup'
+
+describe('router integration', () => {
+	const { exporter, provider } = useTestTracer({ contextManager: true })
+	const tracer = provider.getTracer('test')
+
+	async function inSpan(fn: () => Promise<unknown>) {
+		const span = tracer.startSpan('GET /users/42')
+		await api_context.with(setHandlerSpan(trace.setSpan(ROOT_CONTEXT, span), span), fn)
+		span.end()
+		// The handler span ends last
+		return exporter.getFinishedSpans().slice(-1)[0]!
+	}
+
+	it('matches requests against the URLPattern route table', () => {
+		const routes = ['/users/:id', '/assets/*']
+		expect(matchRoute(routes, new URL('https://example.com/users/42'))).toBe('/users/:id')
+		expect(matchRoute(routes, new URL('https://example.com/assets/app.js?v=2'))).toBe('/assets/*')
+		expect(matchRoute(routes, new URL('https://example.com/'))).toBeUndefined()
+
+		const config = getActiveConfig()!
+		vi.mocked(getActiveConfig).mockReturnValue({
+			...config,
+			handlers: { ...config.handlers, fetch: { ...config.handlers.fetch, routes } },
+		})
+		const { name, options } = fetchInstrumentation.getInitialSpanInfo(new Request('https://example.com/users/42'))
+		expect(name).toBe('GET /users/:id')
+		expect(options.attributes!['http.route']).toBe('/users/:id')
+	})
+
+	it('sets the route of the Hono handler', async () => {
+		const middleware = createHonoMiddleware()
+		const c = { req: { routePath: '/*' } }
+
+		const span = await inSpan(() =>
+			middleware(c, async () => {
+				c.req.routePath = '/users/:id'
+			}),
+		)
+		expect(span.attributes['http.route']).toBe('/users/:id')
+	})
+
+	it('sets the route on the handler span from within nested spans', async () => {
+		const middleware = createHonoMiddleware()
+		const c = { req: { routePath: '/users/:id' } }
+
+		const span = await inSpan(() =>
+			tracer.startActiveSpan('load user', async (nested) => {
+				await middleware(c, async () => {})
+				nested.end()
+			}),
+		)
+		const [nested] = exporter.getFinishedSpans()
+		expect(span.name).toBe('GET /users/42')
+		expect(span.attributes['http.route']).toBe('/users/:id')
+		expect(nested!.name).toBe('load user')
+		expect(nested!.attributes['http.route']).toBeUndefined()
+	})
+
+	it('sets the route of the itty-router route', async () => {
+		const router = instrumentIttyRouter({
+			routes: [],
+			fetch: async (request: Request & { route?: string }) => {
+				request.route = '/users/:id'
+				return new Response('ok')
+			},
+		})
+
+		const span = await inSpan(() => router.fetch(new Request('https://example.com/users/42')))
+		expect(span.attributes['http.route']).toBe('/users/:id')
+		expect(router.routes).toEqual([])
+	})
+})
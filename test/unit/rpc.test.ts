@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { propagation, SpanKind, SpanStatusCode, trace } from '@opentelemetry/api'
+import { W3CTraceContextPropagator } from '@opentelemetry/core'
+
+import { useTestTracer } from '../setup'
+import { getActiveConfig } from '../../src/config'
+import { instrumentServiceBinding } from '../../src/instrumentation/service'
+import { rpcInstrumentation } from '../../src/instrumentation/entrypoint'
+import { instrumentEntrypoint } from '../../src/sdk'
+import { isRpcContextCarrier } from '../../src/instrumentation/rpc-context'
+
+describe('service binding RPC', () => {
+	const { exporter } = useTestTracer({ contextManager: true })
+
+	beforeEach(() => {
+		propagation.setGlobalPropagator(new W3CTraceContextPropagator())
+	})
+
+	afterEach(() => {
+		propagation.disable()
+	})
+
+	it('traces RPC calls as client spans and passes the trace context along', async () => {
+		const calls: unknown[][] = []
+		const binding = {
+			fetch: async () => new Response(),
+			verify: async (...args: unknown[]) => {
+				calls.push(args)
+				return true
+			},
+		} as unknown as Fetcher & { verify(token: string): Promise<boolean> }
+
+		const result = await instrumentServiceBinding(binding, 'AUTH').verify('token')
+
+		expect(result).toBe(true)
+		const [carrier, token] = calls[0]!
+		expect(isRpcContextCarrier(carrier)).toBe(true)
+		expect(token).toBe('token')
+		const span = exporter.getFinishedSpans()[0]!
+		expect(span.name).toBe('RPC AUTH.verify')
+		expect(span.kind).toBe(SpanKind.CLIENT)
+
+		// The entrypoint continues the trace of the caller and only sees the original arguments
+		const trigger = { service: 'AuthService', method: 'verify', args: calls[0]! }
+		const { name, options, context } = rpcInstrumentation.getInitialSpanInfo(trigger)
+		expect(name).toBe('AuthService.verify')
+		expect(options.kind).toBe(SpanKind.SERVER)
+		expect(trace.getSpanContext(context!)?.spanId).toBe(span.spanContext().spanId)
+		expect(rpcInstrumentation.instrumentTrigger!(trigger).args).toEqual(['token'])
+	})
+
+	it('does not pass the trace context along without includeTraceContext', async () => {
+		const config = getActiveConfig()!
+		vi.mocked(getActiveConfig).mockReturnValue({ ...config, rpc: { includeTraceContext: false } })
+		const calls: unknown[][] = []
+		const binding = {
+			verify: async (...args: unknown[]) => {
+				calls.push(args)
+				return true
+			},
+		} as unknown as Fetcher & { verify(token: string): Promise<boolean> }
+
+		await instrumentServiceBinding(binding, 'AUTH').verify('token')
+
+		expect(calls).toEqual([['token']])
+		expect(exporter.getFinishedSpans()[0]!.name).toBe('RPC AUTH.verify')
+	})
+
+	it('records rejected RPC calls as errors', async () => {
+		const binding = {
+			verify: async () => {
+				throw new Error('invalid token')
+			},
+		} as unknown as Fetcher & { verify(token: string): Promise<boolean> }
+
+		await expect(instrumentServiceBinding(binding, 'AUTH').verify('token')).rejects.toThrow('invalid token')
+
+		const span = exporter.getFinishedSpans()[0]!
+		expect(span.status.code).toBe(SpanStatusCode.ERROR)
+		expect(span.events[0]!.name).toBe('exception')
+	})
+
+	it('returns the result of RPC calls as is, so that calls on it can be pipelined', async () => {
+		const user = Object.assign(Promise.resolve({ id: 1 }), { getProfile: () => 'profile' })
+		const binding = { getUser: () => user } as unknown as Fetcher & { getUser(): typeof user }
+
+		const result = instrumentServiceBinding(binding, 'USERS').getUser()
+
+		expect(result).toBe(user)
+		expect(result.getProfile()).toBe('profile')
+		await result
+		const span = exporter.getFinishedSpans()[0]!
+		expect(span.name).toBe('RPC USERS.getUser')
+		expect(span.status.code).toBe(SpanStatusCode.OK)
+	})
+
+	it('passes handlers and other properties of service bindings through untouched', async () => {
+		const calls: unknown[][] = []
+		const binding = {
+			version: 2,
+			connect: (...args: unknown[]) => {
+				calls.push(args)
+				return 'socket'
+			},
+		} as unknown as Fetcher & { version: number }
+
+		const instrumented = instrumentServiceBinding(binding, 'DB')
+
+		expect(instrumented.connect('db:5432')).toBe('socket')
+		expect(calls).toEqual([['db:5432']])
+		expect(instrumented.version).toBe(2)
+		expect(exporter.getFinishedSpans()).toHaveLength(0)
+	})
+
+	it('only instruments the RPC methods of entrypoints, once per method', () => {
+		class AuthService {
+			region = 'eu'
+			async verify() {
+				return true
+			}
+			async tail() {}
+		}
+		const entrypointClass = AuthService as unknown as Parameters<typeof instrumentEntrypoint>[0]
+		const Instrumented = instrumentEntrypoint(entrypointClass, { service: { name: 'auth' } })
+		const service = new Instrumented({} as ExecutionContext, {}) as unknown as AuthService
+
+		expect(service.verify).not.toBe(AuthService.prototype.verify)
+		expect(service.verify).toBe(service.verify)
+		expect(service.tail).toBe(AuthService.prototype.tail)
+		expect(service.region).toBe('eu')
+	})
+})
@@ -0,0 +1,258 @@
+import { afterEach, describe, it, expect, vi } from 'vitest'
+import { env } from 'cloudflare:test'
+import {
+	Attributes,
+	createTraceState,
+	ROOT_CONTEXT,
+	SpanKind,
+	SpanStatusCode,
+	trace,
+	TraceFlags,
+} from '@opentelemetry/api'
+import { ReadableSpan, SamplingDecision } from '@opentelemetry/sdk-trace-base'
+
+import {
+	allOf,
+	anyOf,
+	createSampler,
+	encodeThreshold,
+	hasSpanMatching,
+	isAnyErrorSpan,
+	isRootSlowerThan,
+	LocalTrace,
+	not,
+	RateLimitingSampler,
+	ratioToThreshold,
+	RemoteRuleSampler,
+} from '../../src/sampling'
+
+const traceId = '0af7651916cd43dd8448eb211c80319c'
+
+describe('rule-based head sampling', () => {
+	const sampler = createSampler({
+		rules: [
+			{ match: { 'url.path': /^\/health/ }, ratio: 0 },
+			{ match: { 'http.request.method': 'POST', 'url.path': (path) => path !== '/upload' }, ratio: 1 },
+		],
+		ratio: 0,
+	})
+
+	function decide(attributes: Record<string, string>, context = ROOT_CONTEXT) {
+		return sampler.shouldSample(context, traceId, 'span', SpanKind.SERVER, attributes, []).decision
+	}
+
+	it('uses the ratio of the first matching rule', () => {
+		expect(decide({ 'url.path': '/health/ready', 'http.request.method': 'POST' })).toBe(SamplingDecision.NOT_RECORD)
+		expect(decide({ 'url.path': '/orders', 'http.request.method': 'POST' })).toBe(SamplingDecision.RECORD_AND_SAMPLED)
+	})
+
+	it('falls back to the default ratio', () => {
+		expect(decide({ 'url.path': '/upload', 'http.request.method': 'POST' })).toBe(SamplingDecision.NOT_RECORD)
+		expect(decide({ 'url.path': '/orders', 'http.request.method': 'GET' })).toBe(SamplingDecision.NOT_RECORD)
+	})
+
+	it('follows the decision of a remote parent', () => {
+		const parent = trace.setSpanContext(ROOT_CONTEXT, {
+			traceId,
+			spanId: 'b7ad6b7169203331',
+			traceFlags: TraceFlags.SAMPLED,
+			isRemote: true,
+		})
+		expect(decide({ 'url.path': '/health' }, parent)).toBe(SamplingDecision.RECORD_AND_SAMPLED)
+	})
+})
+
+describe('consistent probability sampling', () => {
+	const sampler = createSampler({ ratio: 0.25, consistent: true, acceptRemote: false })
+	const randomTraceId = '0af7651916cd43dd84f8eb211c80319c'
+	const lowRandomnessTraceId = '0af7651916cd43dd840aeb211c80319c'
+
+	function sample(id: string, context = ROOT_CONTEXT) {
+		return sampler.shouldSample(context, id, 'span', SpanKind.SERVER, {}, [])
+	}
+
+	it('encodes the threshold of a ratio', () => {
+		expect(encodeThreshold(ratioToThreshold(1))).toBe('0')
+		expect(encodeThreshold(ratioToThreshold(0.5))).toBe('8')
+		expect(encodeThreshold(ratioToThreshold(0.25))).toBe('c')
+		expect(encodeThreshold(ratioToThreshold(0.1))).toBe('e6666666666666')
+	})
+
+	it('samples by the trace id randomness and records the threshold', () => {
+		const sampled = sample(randomTraceId)
+		expect(sampled.decision).toBe(SamplingDecision.RECORD_AND_SAMPLED)
+		expect(sampled.traceState?.get('ot')).toBe('th:c')
+
+		const dropped = sample(lowRandomnessTraceId)
+		expect(dropped.decision).toBe(SamplingDecision.NOT_RECORD)
+		expect(dropped.traceState?.get('ot')).toBeUndefined()
+	})
+
+	it('uses explicit randomness and keeps the other trace state', () => {
+		const parent = trace.setSpanContext(ROOT_CONTEXT, {
+			traceId: lowRandomnessTraceId,
+			spanId: 'b7ad6b7169203331',
+			traceFlags: TraceFlags.SAMPLED | 2,
+			isRemote: true,
+			traceState: createTraceState('ot=th:8;rv:ff000000000000,vendor=value'),
+		})
+		const result = sample(lowRandomnessTraceId, parent)
+		expect(result.decision).toBe(SamplingDecision.RECORD_AND_SAMPLED)
+		expect(result.traceState?.get('ot')).toBe('th:c;rv:ff000000000000')
+		expect(result.traceState?.get('vendor')).toBe('value')
+	})
+
+	it('adds explicit randomness when the parent trace id is not random', () => {
+		const parent = trace.setSpanContext(ROOT_CONTEXT, {
+			traceId: randomTraceId,
+			spanId: 'b7ad6b7169203331',
+			traceFlags: TraceFlags.SAMPLED,
+			isRemote: true,
+		})
+		const ot = sample(randomTraceId, parent).traceState?.get('ot')
+		expect(ot).toMatch(/^rv:[0-9a-f]{14}(;th:c)?$/)
+	})
+})
+
+describe('RateLimitingSampler', () => {
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	function decide(sampler: RateLimitingSampler, spanName: string, attributes: Attributes = {}) {
+		return sampler.shouldSample(ROOT_CONTEXT, traceId, spanName, SpanKind.SERVER, attributes).decision
+	}
+
+	it('caps sampled traces with a token bucket', () => {
+		vi.useFakeTimers({ now: 0 })
+		const sampler = new RateLimitingSampler({ tracesPerSecond: 2 })
+
+		const decisions = [1, 2, 3].map(() => decide(sampler, 'GET /'))
+		expect(decisions).toEqual([
+			SamplingDecision.RECORD_AND_SAMPLED,
+			SamplingDecision.RECORD_AND_SAMPLED,
+			SamplingDecision.NOT_RECORD,
+		])
+
+		vi.setSystemTime(500)
+		expect(decide(sampler, 'GET /')).toBe(SamplingDecision.RECORD_AND_SAMPLED)
+		expect(decide(sampler, 'GET /')).toBe(SamplingDecision.NOT_RECORD)
+	})
+
+	it('keeps a floor per route when the bucket is empty', () => {
+		vi.useFakeTimers({ now: 0 })
+		const sampler = new RateLimitingSampler({ tracesPerSecond: 1, minPerRoutePerMinute: 1 })
+
+		const busy = { 'http.route': '/busy' }
+		const quiet = { 'http.route': '/quiet' }
+		expect(decide(sampler, 'GET /busy', busy)).toBe(SamplingDecision.RECORD_AND_SAMPLED)
+		expect(decide(sampler, 'GET /busy', busy)).toBe(SamplingDecision.NOT_RECORD)
+		expect(decide(sampler, 'GET /quiet', quiet)).toBe(SamplingDecision.RECORD_AND_SAMPLED)
+		expect(decide(sampler, 'GET /quiet', quiet)).toBe(SamplingDecision.NOT_RECORD)
+	})
+
+	it('only counts spans without a route against the bucket', () => {
+		vi.useFakeTimers({ now: 0 })
+		const sampler = new RateLimitingSampler({ tracesPerSecond: 1, minPerRoutePerMinute: 5 })
+
+		const decisions = ['GET /users/1', 'GET /users/2', 'GET /users/3'].map((name) => decide(sampler, name))
+		expect(decisions).toEqual([
+			SamplingDecision.RECORD_AND_SAMPLED,
+			SamplingDecision.NOT_RECORD,
+			SamplingDecision.NOT_RECORD,
+		])
+	})
+
+	it('shares the bucket between the samplers of all invocations', () => {
+		vi.useFakeTimers({ now: 0 })
+		// A new sampler is created from the config for every invocation
+		const config = { tracesPerSecond: 3, burst: 1 }
+
+		expect(decide(new RateLimitingSampler(config), 'GET /')).toBe(SamplingDecision.RECORD_AND_SAMPLED)
+		expect(decide(new RateLimitingSampler(config), 'GET /')).toBe(SamplingDecision.NOT_RECORD)
+	})
+})
+
+describe('RemoteRuleSampler', () => {
+	it('applies the fallback until the rules are loaded from KV', async () => {
+		await env.TEST_KV.put(
+			'sampling-rules',
+			JSON.stringify({ rules: [{ match: { 'url.path': { regex: '^/health' } }, ratio: 0 }], ratio: 1 }),
+		)
+		const sampler = new RemoteRuleSampler({ kv: env.TEST_KV, key: 'sampling-rules', fallback: { rules: [], ratio: 1 } })
+		const decide = () =>
+			sampler.shouldSample(ROOT_CONTEXT, traceId, 'GET', SpanKind.SERVER, { 'url.path': '/health' }, []).decision
+
+		expect(decide()).toBe(SamplingDecision.RECORD_AND_SAMPLED)
+		await vi.waitFor(() => expect(decide()).toBe(SamplingDecision.NOT_RECORD))
+	})
+
+	it('keeps the previous rules after a failed read and retries after the refresh interval', async () => {
+		const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+		const now = vi.spyOn(Date, 'now').mockReturnValue(100_000)
+		const get = vi
+			.fn()
+			.mockResolvedValueOnce({ rules: [], ratio: 0 })
+			.mockRejectedValueOnce(new Error('KV unavailable'))
+			.mockResolvedValue({ rules: [], ratio: 1 })
+		const kv = { get } as unknown as KVNamespace
+		const sampler = new RemoteRuleSampler({ kv, key: 'flaky-sampling-rules', fallback: { rules: [], ratio: 1 } })
+		const decide = () => sampler.shouldSample(ROOT_CONTEXT, traceId, 'GET', SpanKind.SERVER, {}, []).decision
+
+		try {
+			decide()
+			await vi.waitFor(() => expect(decide()).toBe(SamplingDecision.NOT_RECORD))
+
+			now.mockReturnValue(160_000)
+			decide()
+			await vi.waitFor(() => expect(log).toHaveBeenCalled())
+			// The rules loaded before stay in place, and the failed read is not repeated on every request
+			expect(decide()).toBe(SamplingDecision.NOT_RECORD)
+			expect(get).toHaveBeenCalledTimes(2)
+
+			now.mockReturnValue(220_000)
+			decide()
+			await vi.waitFor(() => expect(decide()).toBe(SamplingDecision.RECORD_AND_SAMPLED))
+			expect(get).toHaveBeenCalledTimes(3)
+		} finally {
+			now.mockRestore()
+			log.mockRestore()
+		}
+	})
+})
+
+describe('tail samplers', () => {
+	function span(durationMs: number, attributes: Attributes = {}, code = SpanStatusCode.UNSET): ReadableSpan {
+		return { attributes, duration: [0, durationMs * 1e6], status: { code } } as unknown as ReadableSpan
+	}
+
+	function localTrace(...spans: ReadableSpan[]): LocalTrace {
+		return { traceId, localRootSpan: spans[0]!, spans }
+	}
+
+	const slowQuery = localTrace(span(120), span(95, { 'cloudflare.binding.type': 'D1' }))
+	const failedChild = localTrace(span(20), span(5, {}, SpanStatusCode.ERROR))
+
+	it('keeps traces with a slow local root', () => {
+		expect(isRootSlowerThan(100)(slowQuery)).toBe(true)
+		expect(isRootSlowerThan(100)(failedChild)).toBe(false)
+	})
+
+	it('keeps traces with an error in any span', () => {
+		expect(isAnyErrorSpan(failedChild)).toBe(true)
+		expect(isAnyErrorSpan(slowQuery)).toBe(false)
+	})
+
+	it('keeps traces with a span matching a predicate or attributes', () => {
+		expect(hasSpanMatching({ 'cloudflare.binding.type': 'D1' })(slowQuery)).toBe(true)
+		expect(hasSpanMatching((s) => s.duration[1] > 100 * 1e6)(slowQuery)).toBe(true)
+		expect(hasSpanMatching({ 'cloudflare.binding.type': 'KV' })(slowQuery)).toBe(false)
+	})
+
+	it('combines samplers', () => {
+		const sampler = allOf([isRootSlowerThan(50), not(isAnyErrorSpan)])
+		expect(sampler(slowQuery)).toBe(true)
+		expect(sampler(failedChild)).toBe(false)
+		expect(anyOf([sampler, isAnyErrorSpan])(failedChild)).toBe(true)
+	})
+})
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api'
+import { ExportResultCode, hrTimeToMilliseconds } from '@opentelemetry/core'
+import { InMemorySpanExporter } from '@opentelemetry/sdk-trace-base'
+
+import { createTailExporter } from '../../src/tailexporter'
+import { LogTransport, ReadableLogRecord } from '../../src/logs/types'
+
+function fetchEvent(overrides: Partial<TraceItem> = {}): TraceItem {
+	return {
+		event: {
+			request: {
+				method: 'get',
+				url: 'https://example.com/orders?page=2',
+				headers: { traceparent: '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01' },
+			},
+			response: { status: 200 },
+		},
+		eventTimestamp: 1700000000000,
+		logs: [{ timestamp: 1700000000010, level: 'warn', message: ['slow query', { ms: 120 }] }],
+		exceptions: [],
+		diagnosticsChannelEvents: [],
+		scriptName: 'orders-api',
+		outcome: 'ok',
+		executionModel: 'stateless',
+		truncated: false,
+		cpuTime: 12,
+		wallTime: 250,
+		...overrides,
+	} as unknown as TraceItem
+}
+
+function collectingTransport(logs: ReadableLogRecord[]): LogTransport {
+	return {
+		name: 'collecting',
+		export: (records, callback) => {
+			logs.push(...records)
+			callback({ code: ExportResultCode.SUCCESS })
+		},
+		shutdown: async () => {},
+	}
+}
+
+describe('tail exporter', () => {
+	it('converts tail events into spans and log records of the tailed worker', async () => {
+		const exporter = new InMemorySpanExporter()
+		const logs: ReadableLogRecord[] = []
+		const tail = createTailExporter({ exporter, transports: [collectingTransport(logs)] })
+
+		await tail([fetchEvent()], {}, {} as ExecutionContext)
+
+		const [span] = exporter.getFinishedSpans()
+		expect(span!.name).toBe('GET /orders')
+		expect(span!.kind).toBe(SpanKind.SERVER)
+		expect(span!.resource.attributes['service.name']).toBe('orders-api')
+		expect(span!.attributes).toMatchObject({
+			'cloudflare.outcome': 'ok',
+			'cloudflare.cpu_time_ms': 12,
+			'cloudflare.wall_time_ms': 250,
+			'http.response.status_code': 200,
+		})
+		expect(hrTimeToMilliseconds(span!.duration)).toBe(250)
+		// The span continues the trace of the caller
+		expect(span!.spanContext().traceId).toBe('0af7651916cd43dd8448eb211c80319c')
+		expect(span!.parentSpanContext?.spanId).toBe('b7ad6b7169203331')
+
+		expect(logs).toHaveLength(1)
+		expect(logs[0]!.body).toBe('slow query {"ms":120}')
+		expect(logs[0]!.severityText).toBe('WARN')
+		expect(logs[0]!.spanId).toBe(span!.spanContext().spanId)
+	})
+
+	it('marks invocations with exceptions as failed', async () => {
+		const exporter = new InMemorySpanExporter()
+		const tail = createTailExporter({ exporter })
+
+		const exceptions = [{ timestamp: 1700000000100, name: 'TypeError', message: 'boom' }]
+		await tail([fetchEvent({ outcome: 'exception', exceptions, logs: [] })], {}, {} as ExecutionContext)
+
+		const [span] = exporter.getFinishedSpans()
+		expect(span!.status).toEqual({ code: SpanStatusCode.ERROR, message: 'exception' })
+		expect(span!.events[0]!.attributes).toMatchObject({ 'exception.type': 'TypeError', 'exception.message': 'boom' })
+	})
+})
@@ -0,0 +1,175 @@
+import { describe, it, expect, vi } from 'vitest'
+import { env, runInDurableObject } from 'cloudflare:test'
+import { ExportResult, ExportResultCode } from '@opentelemetry/core'
+import { ReadableSpan } from '@opentelemetry/sdk-trace-base'
+
+import { mergeExportRequests } from '../../src/queueexporter'
+import { DurableObjectSpanExporter, TelemetryBuffer } from '../../src/telemetrybuffer'
+
+// The Durable Object base class only accepts a real `DurableObjectState`
+function withState(fn: (state: DurableObjectState, waitUntil: Promise<unknown>[], alarms: number[]) => Promise<void>) {
+	const stub = env.PLAIN_DO.get(env.PLAIN_DO.newUniqueId())
+	return runInDurableObject(stub, async (_instance, state) => {
+		const waitUntil: Promise<unknown>[] = []
+		const alarms: number[] = []
+		vi.spyOn(state, 'waitUntil').mockImplementation((promise) => waitUntil.push(promise))
+		vi.spyOn(state.storage, 'setAlarm').mockImplementation(async (time) => {
+			alarms.push(Number(time))
+		})
+		try {
+			await fn(state, waitUntil, alarms)
+		} finally {
+			vi.restoreAllMocks()
+		}
+	})
+}
+
+function recordingFetcher(requests: Request[], status = 200): Fetcher['fetch'] {
+	return async (input, init) => {
+		requests.push(new Request(input as string, init))
+		return new Response(null, { status })
+	}
+}
+
+const resourceSpans = (id: number) => JSON.stringify({ resourceSpans: [{ id }] })
+
+describe('mergeExportRequests', () => {
+	it('concatenates the resources of JSON requests', () => {
+		const merged = mergeExportRequests('traces', 'http/json', [
+			JSON.stringify({ resourceSpans: [{ id: 1 }] }),
+			JSON.stringify({ resourceSpans: [{ id: 2 }, { id: 3 }] }),
+		])
+		expect(JSON.parse(merged as string)).toEqual({ resourceSpans: [{ id: 1 }, { id: 2 }, { id: 3 }] })
+	})
+
+	it('concatenates protobuf requests', () => {
+		const merged = mergeExportRequests('logs', 'http/protobuf', [new Uint8Array([1, 2]), new Uint8Array([3])])
+		expect([...(merged as Uint8Array)]).toEqual([1, 2, 3])
+	})
+})
+
+describe('TelemetryBuffer', () => {
+	it('buffers telemetry and flushes it as one request when the alarm fires', () =>
+		withState(async (state, waitUntil, alarms) => {
+			const requests: Request[] = []
+			const buffer = new TelemetryBuffer(
+				state,
+				{},
+				{
+					traces: { url: 'https://collector.example/v1/traces', fetcher: recordingFetcher(requests) },
+					flushIntervalMs: 5000,
+				},
+			)
+
+			await buffer.add('traces', 'http/json', resourceSpans(1))
+			await buffer.add('traces', 'http/json', resourceSpans(2))
+
+			// A single alarm is scheduled for the whole buffer
+			expect(alarms).toHaveLength(1)
+			expect(waitUntil).toHaveLength(0)
+			expect(requests).toHaveLength(0)
+
+			await buffer.alarm()
+
+			expect(requests).toHaveLength(1)
+			expect(await requests[0]!.json()).toEqual({ resourceSpans: [{ id: 1 }, { id: 2 }] })
+
+			// The next batch schedules a new alarm
+			await buffer.add('traces', 'http/json', resourceSpans(3))
+			expect(alarms).toHaveLength(2)
+		}))
+
+	it('flushes in the background once the buffer is full', () =>
+		withState(async (state, waitUntil, alarms) => {
+			const requests: Request[] = []
+			const body = resourceSpans(1)
+			const buffer = new TelemetryBuffer(
+				state,
+				{},
+				{
+					traces: { url: 'https://collector.example/v1/traces', fetcher: recordingFetcher(requests) },
+					maxBufferBytes: body.length * 2,
+				},
+			)
+
+			await buffer.add('traces', 'http/json', body)
+			await buffer.add('traces', 'http/json', resourceSpans(2))
+
+			expect(alarms).toHaveLength(1)
+			expect(waitUntil).toHaveLength(1)
+			await Promise.all(waitUntil)
+			expect(requests).toHaveLength(1)
+			expect(await requests[0]!.json()).toEqual({ resourceSpans: [{ id: 1 }, { id: 2 }] })
+
+			// Nothing is left to flush when the alarm fires
+			await buffer.alarm()
+			expect(requests).toHaveLength(1)
+		}))
+
+	it('retries failed flushes and drops the telemetry when the retries run out', () =>
+		withState(async (state) => {
+			const requests: Request[] = []
+			const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+			const buffer = new TelemetryBuffer(
+				state,
+				{},
+				{
+					traces: { url: 'https://collector.example/v1/traces', fetcher: recordingFetcher(requests, 503) },
+					retry: { maxAttempts: 3, initialBackoffMs: 1 },
+				},
+			)
+
+			await buffer.add('traces', 'http/json', resourceSpans(1))
+			await buffer.alarm()
+
+			expect(requests).toHaveLength(3)
+			expect(log).toHaveBeenCalledWith(expect.stringContaining('statusCode: 503'))
+
+			// The failed batch is not exported again with the next flush
+			await buffer.alarm()
+			expect(requests).toHaveLength(3)
+		}))
+})
+
+describe('DurableObjectSpanExporter', () => {
+	function fakeNamespace(names: string[]) {
+		return {
+			idFromName: (name: string) => name,
+			get: (name: string) => ({
+				add: async () => {
+					names.push(name)
+				},
+			}),
+		} as unknown as DurableObjectNamespace<TelemetryBuffer<any>>
+	}
+
+	function exportSpans(exporter: DurableObjectSpanExporter): Promise<ExportResult> {
+		return new Promise((resolve) => exporter.export([] as ReadableSpan[], resolve))
+	}
+
+	it('sends all spans to a single buffer by default', async () => {
+		const names: string[] = []
+		const exporter = new DurableObjectSpanExporter({ namespace: fakeNamespace(names) })
+
+		const result = await exportSpans(exporter)
+
+		expect(result.code).toBe(ExportResultCode.SUCCESS)
+		expect(names).toEqual(['telemetry-buffer'])
+	})
+
+	it('spreads exports over the shards', async () => {
+		const names: string[] = []
+		const random = vi.spyOn(Math, 'random')
+		try {
+			const exporter = new DurableObjectSpanExporter({ namespace: fakeNamespace(names), name: 'buffer', shards: 4 })
+			for (const value of [0, 0.3, 0.6, 0.99]) {
+				random.mockReturnValueOnce(value)
+				await exportSpans(exporter)
+			}
+		} finally {
+			random.mockRestore()
+		}
+
+		expect(names).toEqual(['buffer-0', 'buffer-1', 'buffer-2', 'buffer-3'])
+	})
+})
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api'
+import type { WorkflowStep } from 'cloudflare:workers'
+
+import { instrumentWorkflowBinding, instrumentWorkflowStep } from '../../src/instrumentation/workflow'
+import { useTestTracer } from '../setup'
+
+type Callback = () => Promise<unknown>
+
+function fakeStep(stored: Record<string, unknown> = {}): WorkflowStep {
+	return {
+		do: async (name: string, ...args: unknown[]) => {
+			if (name in stored) {
+				return stored[name]
+			}
+			const callback = args[args.length - 1] as Callback
+			try {
+				return await callback()
+			} catch {
+				// a single retry
+				return await callback()
+			}
+		},
+		sleep: async () => {},
+		sleepUntil: async () => {},
+		waitForEvent: async () => {
+			throw new Error('timed out')
+		},
+	} as unknown as WorkflowStep
+}
+
+describe('workflow instrumentation', () => {
+	const { exporter } = useTestTracer()
+
+	it('traces steps with their config, attempts and outcome', async () => {
+		const step = instrumentWorkflowStep(fakeStep({ charge: 'stored' }), 'OrderWorkflow')
+
+		let calls = 0
+		const config = { retries: { limit: 3, delay: '1 second' as const, backoff: 'exponential' as const } }
+		const result = await step.do('reserve', config, async () => {
+			if (++calls === 1) {
+				throw new Error('flaky')
+			}
+			return 'reserved'
+		})
+		expect(result).toBe('reserved')
+		expect(await step.do('charge', async () => 'charged')).toBe('stored')
+		await step.sleep('cool down', '1 hour')
+		await expect(step.waitForEvent('approval', { type: 'approved', timeout: '1 day' })).rejects.toThrow('timed out')
+
+		const [reserve, charge, sleep, approval] = exporter.getFinishedSpans()
+		expect(reserve!.name).toBe('step.do reserve')
+		expect(reserve!.attributes).toMatchObject({
+			'cloudflare.workflow.name': 'OrderWorkflow',
+			'cloudflare.workflow.step.name': 'reserve',
+			'cloudflare.workflow.step.retries.limit': 3,
+			'cloudflare.workflow.step.retries.delay': '1 second',
+			'cloudflare.workflow.step.retries.backoff': 'exponential',
+			'cloudflare.workflow.step.attempt': 2,
+			'cloudflare.workflow.step.outcome': 'success',
+		})
+		expect(reserve!.events.map((event) => event.name)).toEqual(['step attempt failed'])
+
+		expect(charge!.attributes['cloudflare.workflow.step.outcome']).toBe('cached')
+		expect(charge!.attributes['cloudflare.workflow.step.attempt']).toBeUndefined()
+
+		expect(sleep!.name).toBe('step.sleep cool down')
+		expect(sleep!.attributes['cloudflare.workflow.step.sleep_duration']).toBe('1 hour')
+
+		expect(approval!.attributes['cloudflare.workflow.step.event_type']).toBe('approved')
+		expect(approval!.attributes['cloudflare.workflow.step.outcome']).toBe('error')
+		expect(approval!.status.code).toBe(SpanStatusCode.ERROR)
+	})
+
+	it('traces workflow binding calls as client spans', async () => {
+		const instance = {
+			id: 'order-1',
+			status: async () => ({ status: 'running' }),
+		}
+		const binding = {
+			create: async () => instance,
+			createBatch: async () => [instance],
+			get: async () => instance,
+		} as unknown as Workflow
+		const workflow = instrumentWorkflowBinding(binding, 'ORDERS')
+
+		const created = await workflow.create({ id: 'order-1' })
+		expect(await created.status()).toEqual({ status: 'running' })
+
+		const [create, status] = exporter.getFinishedSpans()
+		expect(create!.name).toBe('Workflow ORDERS create')
+		expect(create!.kind).toBe(SpanKind.CLIENT)
+		expect(create!.attributes['cloudflare.workflow.instance.id']).toBe('order-1')
+		expect(status!.name).toBe('Workflow ORDERS status')
+		expect(status!.attributes).toMatchObject({
+			'cloudflare.binding.type': 'Workflow',
+			'cloudflare.workflow.instance.id': 'order-1',
+			'cloudflare.workflow.instance.status': 'running',
+		})
+	})
+})
@@ -1,5 +1,7 @@
 interface Env {
 	TEST_DO: DurableObjectNamespace
+	PLAIN_DO: DurableObjectNamespace
+	TEST_KV: KVNamespace
 	MY_BUCKET: R2Bucket
 	CF_VERSION_METADATA: WorkerVersionMetadata
 }